@@ -0,0 +1,18 @@
+import { apiError, apiResponse, serializeConferenceDetail } from "@/lib/api";
+import { getConference } from "@/lib/conference-data";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const conf = getConference(id);
+  if (!conf) {
+    return apiError(404, `No conference with id "${id}"`);
+  }
+
+  const now = new Date();
+  return apiResponse(serializeConferenceDetail(conf, now), now);
+}
@@ -0,0 +1,23 @@
+import { apiError, apiResponse, serializeConference } from "@/lib/api";
+import { getConferences } from "@/lib/conference-data";
+import { resolveAreaSlugs } from "@/lib/filters";
+
+export const dynamic = "force-dynamic";
+
+/** Lists every venue with its next deadline; `?area=` narrows by area slug. */
+export function GET(request: Request) {
+  const now = new Date();
+  const { searchParams } = new URL(request.url);
+  const { areas, unknown } = resolveAreaSlugs(searchParams.getAll("area"));
+  if (unknown.length) {
+    return apiError(400, `Unknown area: ${unknown.join(", ")}`);
+  }
+
+  const conferences = getConferences().filter(
+    (conf) => !areas.length || areas.includes(conf.area),
+  );
+  return apiResponse(
+    conferences.map((conf) => serializeConference(conf, now)),
+    now,
+  );
+}
@@ -0,0 +1,80 @@
+import { apiError, apiResponse, serializeUpcoming } from "@/lib/api";
+import { getConferences } from "@/lib/conference-data";
+import { getUpcomingDeadlines } from "@/lib/deadlines";
+import {
+  emptyFilters,
+  matchesFilters,
+  resolveAreaSlugs,
+  type StatusFilter,
+  type VenueTypeFilter,
+} from "@/lib/filters";
+import { resolveContinentSlugs } from "@/lib/geo";
+
+export const dynamic = "force-dynamic";
+
+function parsePositiveInteger(value: string | null): number | null | undefined {
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Each venue's next deadline, soonest first — the same list as the "Next up"
+ * panel. Supports `?area=` and `?continent=` (both repeatable), `?within=<days>`,
+ * `?estimated=true|false`, `?type=conference|journal`, `?workshops=true` and
+ * `?limit=<n>`.
+ */
+export function GET(request: Request) {
+  const now = new Date();
+  const { searchParams } = new URL(request.url);
+
+  const { areas, unknown } = resolveAreaSlugs(searchParams.getAll("area"));
+  if (unknown.length) {
+    return apiError(400, `Unknown area: ${unknown.join(", ")}`);
+  }
+  const continentSlugs = resolveContinentSlugs(searchParams.getAll("continent"));
+  if (continentSlugs.unknown.length) {
+    return apiError(400, `Unknown continent: ${continentSlugs.unknown.join(", ")}`);
+  }
+  const withinDays = parsePositiveInteger(searchParams.get("within"));
+  if (withinDays === undefined) {
+    return apiError(400, "`within` must be a positive number of days");
+  }
+  const limit = parsePositiveInteger(searchParams.get("limit"));
+  if (limit === undefined) {
+    return apiError(400, "`limit` must be a positive integer");
+  }
+  const estimated = searchParams.get("estimated");
+  if (estimated !== null && estimated !== "true" && estimated !== "false") {
+    return apiError(400, "`estimated` must be true or false");
+  }
+  const status: StatusFilter =
+    estimated === null ? "all" : estimated === "true" ? "estimated" : "confirmed";
+  const type = searchParams.get("type");
+  if (type !== null && type !== "conference" && type !== "journal") {
+    return apiError(400, "`type` must be conference or journal");
+  }
+  const venueType: VenueTypeFilter =
+    type === null ? "all" : type === "journal" ? "journal" : "conference";
+  const workshops = searchParams.get("workshops");
+  if (workshops !== null && workshops !== "true" && workshops !== "false") {
+    return apiError(400, "`workshops` must be true or false");
+  }
+
+  const filters = {
+    ...emptyFilters,
+    areas,
+    continents: continentSlugs.continents,
+    withinDays,
+    status,
+    venueType,
+    workshops: workshops === "true",
+  };
+  const entries = getConferences().filter((conf) =>
+    matchesFilters(conf, filters, now),
+  );
+  return apiResponse(
+    getUpcomingDeadlines(entries, now, limit ?? undefined).map(serializeUpcoming),
+    now,
+  );
+}
@@ -0,0 +1,57 @@
+import { buildCalendar } from "@/lib/calendar";
+import { getConferences } from "@/lib/conference-data";
+import { resolveAreaSlugs } from "@/lib/filters";
+
+export const dynamic = "force-dynamic";
+
+const CALENDAR_NAME = "Conference Deadlines";
+
+/**
+ * Serves an iCalendar feed of upcoming deadlines. Narrow it down with
+ * `?area=computer-vision` (repeatable, matching `areaOrder` slugs) or
+ * `?ids=cvpr,iccv` so each group can subscribe to its own venues. Workshops
+ * are left out unless named in `ids` or asked for with `?workshops=true`.
+ */
+export function GET(request: Request) {
+  const conferences = getConferences();
+  const { searchParams } = new URL(request.url);
+  const ids = (searchParams.get("ids") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  const { areas, unknown: unknownAreas } = resolveAreaSlugs(
+    searchParams.getAll("area"),
+  );
+  const unknownIds = ids.filter(
+    (id) => !conferences.some((conf) => conf.id === id),
+  );
+  if (unknownAreas.length || unknownIds.length) {
+    return new Response(
+      `Unknown ${unknownAreas.length ? `area: ${unknownAreas.join(", ")}` : `conference: ${unknownIds.join(", ")}`}\n`,
+      { status: 400, headers: { "Content-Type": "text/plain; charset=utf-8" } },
+    );
+  }
+
+  const workshops = searchParams.get("workshops") === "true";
+  const selected = conferences.filter(
+    (conf) =>
+      (!areas.length || areas.some((area) => area === conf.area)) &&
+      (ids.length
+        ? ids.includes(conf.id)
+        : workshops || !conf.parent),
+  );
+  const name = areas.length
+    ? `${CALENDAR_NAME} · ${areas.join(", ")}`
+    : ids.length
+      ? `${CALENDAR_NAME} · ${selected.map((conf) => conf.acronym).join(", ")}`
+      : CALENDAR_NAME;
+
+  return new Response(buildCalendar(selected, new Date(), { name }), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="conference-deadlines.ics"',
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+}
@@ -0,0 +1,374 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { milestoneLabels } from "@/data/conferences";
+import { Countdown } from "@/components/countdown";
+import { VenueHistory } from "@/components/venue-history";
+import { getConference, getConferences } from "@/lib/conference-data";
+import {
+  getDeadlineOccurrences,
+  getNextDeadline,
+  getOccurrenceKey,
+} from "@/lib/deadlines";
+import { formatEventCountdown } from "@/lib/events";
+import { formatDateRange } from "@/lib/history";
+import {
+  getConferenceLocationHref,
+  getLocationLabel,
+} from "@/lib/location";
+import { getJournalFirstHosts, isJournal } from "@/lib/journals";
+import { getWorkshops } from "@/lib/workshops";
+
+// Deadlines are resolved on the server, so refresh which one is next hourly.
+export const revalidate = 3600;
+export const dynamicParams = false;
+
+interface ConferencePageProps {
+  params: Promise<{ id: string }>;
+}
+
+export function generateStaticParams() {
+  return getConferences().map((conf) => ({ id: conf.id }));
+}
+
+export async function generateMetadata({
+  params,
+}: ConferencePageProps): Promise<Metadata> {
+  const conf = getConference((await params).id);
+  if (!conf) return {};
+
+  const next = getNextDeadline(conf, new Date());
+  const summary = conf.isRolling
+    ? "Rolling submissions, always open."
+    : next
+      ? `Next ${milestoneLabels[next.kind].toLowerCase()} deadline: ${next.label}${next.estimated ? " (estimated)" : ""}.`
+      : "Next deadline to be announced.";
+  const title = `${conf.acronym} deadlines`;
+  const description = `${conf.name}. ${summary}`;
+
+  return {
+    title: `${title} · Conference Deadlines`,
+    description,
+    alternates: { canonical: `/conferences/${conf.id}` },
+    openGraph: {
+      title,
+      description,
+      type: "website",
+      url: `/conferences/${conf.id}`,
+      siteName: "Conference Deadlines",
+    },
+    twitter: { card: "summary", title, description },
+  };
+}
+
+export default async function ConferencePage({ params }: ConferencePageProps) {
+  const conf = getConference((await params).id);
+  if (!conf) notFound();
+
+  const now = new Date();
+  const occurrences = getDeadlineOccurrences(conf, now);
+  const location = getLocationLabel(conf);
+  const locationHref = getConferenceLocationHref(conf);
+  const parent = conf.parent ? getConference(conf.parent) : undefined;
+  const journal = isJournal(conf);
+  const presentAt = getJournalFirstHosts(getConferences()).get(conf.id) ?? [];
+  const workshops = getWorkshops(getConferences(), conf.id).map((workshop) => ({
+    workshop,
+    next: getNextDeadline(workshop, now),
+  }));
+
+  return (
+    <div className="min-h-screen bg-slate-100 pb-16">
+      <header className="border-b border-slate-200 bg-white/90 backdrop-blur">
+        <div className="mx-auto flex max-w-4xl flex-col gap-4 px-6 py-10">
+          <Link
+            href="/"
+            className="text-xs font-medium text-emerald-600 transition hover:text-emerald-500"
+          >
+            ← All conferences
+          </Link>
+          <div>
+            <span className="inline-flex items-center gap-2 rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-600">
+              {conf.area}
+              {journal ? " · Journal" : ""}
+            </span>
+            <h1 className="mt-3 text-3xl font-semibold text-slate-900 md:text-4xl">
+              {conf.acronym}
+            </h1>
+            <p className="mt-1 text-sm text-slate-600 md:text-base">
+              {conf.name}
+            </p>
+            {parent && (
+              <p className="mt-1 text-sm text-slate-600">
+                Workshop at{" "}
+                <Link
+                  href={`/conferences/${parent.id}`}
+                  className="font-medium text-emerald-600 hover:text-emerald-500"
+                >
+                  {parent.acronym}
+                </Link>
+              </p>
+            )}
+            {conf.journalFirst?.length ? (
+              <p className="mt-1 text-sm text-slate-600">
+                Journal-first track for{" "}
+                {conf.journalFirst.map((track, index) => (
+                  <span key={track.journal}>
+                    {index > 0 ? ", " : ""}
+                    <Link
+                      href={`/conferences/${track.journal}`}
+                      className="font-medium text-emerald-600 hover:text-emerald-500"
+                    >
+                      {getConference(track.journal)?.acronym ?? track.journal}
+                    </Link>
+                  </span>
+                ))}{" "}
+                papers
+              </p>
+            ) : null}
+          </div>
+          <div className="flex flex-wrap gap-4 text-sm">
+            <Link
+              href={conf.website}
+              target="_blank"
+              rel="noreferrer"
+              className="font-medium text-emerald-600 hover:text-emerald-500"
+            >
+              Official website ↗
+            </Link>
+            {conf.submissionLink && (
+              <Link
+                href={conf.submissionLink}
+                target="_blank"
+                rel="noreferrer"
+                className="font-medium text-emerald-600 hover:text-emerald-500"
+              >
+                Call for papers ↗
+              </Link>
+            )}
+            {occurrences.length > 0 && (
+              <a
+                href={`/calendar.ics?ids=${conf.id}`}
+                className="font-medium text-emerald-600 hover:text-emerald-500"
+              >
+                Add to calendar (.ics)
+              </a>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto mt-10 flex max-w-4xl flex-col gap-8 px-6">
+        <section className="space-y-4">
+          <h2 className="text-2xl font-semibold text-slate-900">Deadlines</h2>
+          <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
+            {conf.isRolling && (
+              <p className="px-6 py-4 text-sm text-slate-600">
+                Rolling submissions — always open.
+              </p>
+            )}
+            {conf.isRolling && occurrences.length === 0 ? null : occurrences.length === 0 ? (
+              <p className="px-6 py-4 text-sm text-slate-600">
+                Deadlines to be announced.
+              </p>
+            ) : (
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead className="bg-slate-50">
+                  <tr className="text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <th scope="col" className="px-6 py-3">
+                      Milestone
+                    </th>
+                    <th scope="col" className="px-6 py-3">
+                      Deadline
+                    </th>
+                    <th scope="col" className="px-6 py-3">
+                      Countdown
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 text-sm text-slate-700">
+                  {occurrences.map((occurrence) => (
+                    <tr key={getOccurrenceKey(occurrence)}>
+                      <td className="px-6 py-4 font-medium text-slate-900">
+                        {milestoneLabels[occurrence.kind]}
+                        {occurrence.edition
+                          ? ` · ${occurrence.edition.year}`
+                          : ""}
+                        {occurrence.specialIssue && (
+                          <Link
+                            href={occurrence.specialIssue.website}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="block text-xs font-medium text-emerald-600 hover:text-emerald-500"
+                          >
+                            {occurrence.specialIssue.title} ↗
+                          </Link>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex flex-col">
+                          <span>
+                            {occurrence.label}
+                            {occurrence.estimated ? " · est." : ""}
+                          </span>
+                          {occurrence.edition && (
+                            <Link
+                              href={occurrence.edition.source}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="text-xs font-medium text-emerald-600 hover:text-emerald-500"
+                            >
+                              Confirmed
+                            </Link>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 font-semibold text-emerald-600">
+                        <Countdown target={occurrence.date.toISOString()} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </section>
+
+        <section className="grid gap-4 md:grid-cols-3">
+          {journal ? (
+            <>
+              <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+                <h2 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Review turnaround
+                </h2>
+                <p className="mt-2 text-sm text-slate-700">
+                  {conf.turnaround
+                    ? `~${conf.turnaround.firstDecisionDays} days to first decision`
+                    : "—"}
+                </p>
+                {conf.turnaround?.acceptanceDays && (
+                  <p className="mt-1 text-xs text-slate-500">
+                    ~{conf.turnaround.acceptanceDays} days to acceptance
+                  </p>
+                )}
+                {conf.turnaround && (
+                  <Link
+                    href={conf.turnaround.source}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="mt-2 inline-flex items-center gap-1 text-xs font-medium text-emerald-600 hover:text-emerald-500"
+                  >
+                    Source ↗
+                  </Link>
+                )}
+              </div>
+              <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+                <h2 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Present at
+                </h2>
+                {presentAt.length ? (
+                  <ul className="mt-2 space-y-1 text-sm text-slate-700">
+                    {presentAt.map((host) => (
+                      <li key={host.id}>
+                        <Link
+                          href={`/conferences/${host.id}`}
+                          className="font-medium text-emerald-600 hover:text-emerald-500"
+                        >
+                          {host.acronym}
+                        </Link>{" "}
+                        journal-first track
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="mt-2 text-sm text-slate-700">—</p>
+                )}
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+                <h2 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Conference dates
+                </h2>
+                <p className="mt-2 text-sm text-slate-700">
+                  {conf.eventDates ? formatDateRange(conf.eventDates) : "—"}
+                </p>
+                {conf.eventDates && (
+                  <p className="mt-1 text-xs font-medium text-emerald-600">
+                    {formatEventCountdown(conf.eventDates, now)}
+                  </p>
+                )}
+              </div>
+              <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+                <h2 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  Location
+                </h2>
+                <p className="mt-2 text-sm text-slate-700">{location ?? "—"}</p>
+                {location && locationHref && (
+                  <Link
+                    href={locationHref}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="mt-2 inline-flex items-center gap-1 text-xs font-medium text-emerald-600 hover:text-emerald-500"
+                  >
+                    Open in maps ↗
+                  </Link>
+                )}
+              </div>
+            </>
+          )}
+          <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+            <h2 className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Note
+            </h2>
+            <p className="mt-2 text-sm text-slate-700">{conf.note ?? "—"}</p>
+          </div>
+        </section>
+
+        {workshops.length > 0 && (
+          <section className="space-y-4">
+            <h2 className="text-2xl font-semibold text-slate-900">Workshops</h2>
+            <ul className="divide-y divide-slate-100 overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
+              {workshops.map(({ workshop, next }) => (
+                <li
+                  key={workshop.id}
+                  className="flex items-center justify-between gap-4 px-6 py-4"
+                >
+                  <div className="flex flex-col">
+                    <Link
+                      href={`/conferences/${workshop.id}`}
+                      className="text-sm font-semibold text-slate-900 transition hover:text-emerald-600"
+                    >
+                      {workshop.acronym}
+                    </Link>
+                    <span className="text-xs text-slate-500">{workshop.name}</span>
+                    <span className="text-xs text-slate-500">
+                      {next
+                        ? `${milestoneLabels[next.kind]} · ${next.label}${next.estimated ? " · est." : ""}`
+                        : "Deadlines to be announced"}
+                    </span>
+                  </div>
+                  {next && (
+                    <Countdown
+                      target={next.date.toISOString()}
+                      className="text-sm font-semibold text-emerald-600"
+                    />
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section className="space-y-4">
+          <h2 className="text-2xl font-semibold text-slate-900">History</h2>
+          <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+            <VenueHistory conf={conf} now={now} />
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
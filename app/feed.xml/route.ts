@@ -0,0 +1,20 @@
+import { getChangeLog, getConferences } from "@/lib/conference-data";
+import { buildAtomFeed } from "@/lib/feed";
+
+export const dynamic = "force-dynamic";
+
+/** Atom feed built from data/changelog.yaml. */
+export function GET(request: Request) {
+  const { origin } = new URL(request.url);
+  const feed = buildAtomFeed(getChangeLog(), getConferences(), {
+    siteUrl: origin,
+    title: "Conference Deadlines · Changes",
+  });
+
+  return new Response(feed, {
+    headers: {
+      "Content-Type": "application/atom+xml; charset=utf-8",
+      "Cache-Control": "public, max-age=3600",
+    },
+  });
+}
@@ -1,4 +1,4 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 
@@ -13,9 +13,19 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
+  metadataBase: new URL("https://conf-ddl.vercel.app"),
   title: "Conference Deadlines",
   description:
     "Live countdowns and submission timelines for premier AI, ML, robotics, and computing conferences.",
+  alternates: {
+    types: { "application/atom+xml": "/feed.xml" },
+  },
+  appleWebApp: { capable: true, title: "ConfDDL", statusBarStyle: "default" },
+  icons: { apple: "/icons/apple-touch-icon.png" },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#10b981",
 };
 
 export default function RootLayout({
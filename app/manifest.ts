@@ -0,0 +1,25 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Conference Deadlines",
+    short_name: "ConfDDL",
+    description:
+      "Live countdowns and submission timelines for premier AI, ML, robotics, and computing conferences.",
+    start_url: "/",
+    scope: "/",
+    display: "standalone",
+    background_color: "#f1f5f9",
+    theme_color: "#10b981",
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+      {
+        src: "/icons/maskable-512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "maskable",
+      },
+    ],
+  };
+}
@@ -0,0 +1,535 @@
+import Link from "next/link";
+import { Fragment } from "react";
+
+import {
+  type Conference,
+  milestoneLabels,
+  reviewModelLabels,
+  reviewPlatformLabels,
+} from "@/data/conferences";
+import { getDeadlineOccurrences, getOccurrenceKey } from "@/lib/deadlines";
+import {
+  type DashboardState,
+  getDashboardHref,
+  getNextSort,
+  type OptionalColumn,
+  optionalColumnLabels,
+  type SortDirection,
+  type SortKey,
+} from "@/lib/dashboard-state";
+import { formatEventCountdown } from "@/lib/events";
+import {
+  formatAcceptanceRate,
+  formatDateRange,
+  getRecentAcceptanceRate,
+} from "@/lib/history";
+import {
+  getConferenceLocationHref,
+  getLocationLabel,
+} from "@/lib/location";
+import { toReminderVenue } from "@/lib/reminders";
+import { slugify } from "@/lib/slug";
+import { areaLabelFor } from "@/lib/sort";
+import { Countdown } from "@/components/countdown";
+import { LocalTime } from "@/components/local-time";
+import { IfStarred, StarButton } from "@/components/starred";
+import { HistoryButton, ReminderButton } from "@/components/venue-actions";
+import { VenueHistory } from "@/components/venue-history";
+import { WorkshopRows, WorkshopToggle } from "@/components/workshop-rows";
+
+export interface ConferenceRowGroup {
+  conf: Conference;
+  /** Workshops listed under the row, behind its expander */
+  workshops: Conference[];
+  /** Shown in an Area column when set */
+  area?: string;
+  /**
+   * A workshop that "My venues" lists on its own row unless its parent is
+   * starred, in which case it sits under the parent instead.
+   */
+  standalone?: boolean;
+}
+
+function SortIndicator({
+  active,
+  direction,
+}: {
+  active: boolean;
+  direction: SortDirection;
+}) {
+  if (!active) {
+    return (
+      <svg
+        aria-hidden="true"
+        viewBox="0 0 12 12"
+        className="h-3 w-3 text-slate-300"
+      >
+        <path
+          d="M6 2.5L8.75 6H3.25L6 2.5z"
+          fill="currentColor"
+          opacity="0.8"
+        />
+        <path
+          d="M6 9.5L3.25 6H8.75L6 9.5z"
+          fill="currentColor"
+          opacity="0.4"
+        />
+      </svg>
+    );
+  }
+
+  return (
+    <svg
+      aria-hidden="true"
+      viewBox="0 0 12 12"
+      className={`h-3 w-3 text-emerald-600 transition-transform duration-150 ${direction === "desc" ? "rotate-180" : ""}`}
+    >
+      <path d="M6 2.25L8.75 5.75H3.25L6 2.25z" fill="currentColor" />
+      <path
+        d="M4.25 8.75h3.5c.138 0 .25.112.25.25 0 .139-.112.25-.25.25h-3.5a.25.25 0 01-.25-.25c0-.138.112-.25.25-.25z"
+        fill="currentColor"
+      />
+    </svg>
+  );
+}
+
+function SortableHeader({
+  label,
+  sortKey,
+  state,
+}: {
+  label: string;
+  sortKey: SortKey;
+  state: DashboardState;
+}) {
+  const { sort } = state;
+  const active = sort.key === sortKey;
+  return (
+    <th
+      scope="col"
+      className="px-6 py-3"
+      aria-sort={
+        active
+          ? sort.direction === "asc"
+            ? "ascending"
+            : "descending"
+          : "none"
+      }
+    >
+      <Link
+        href={getDashboardHref({ ...state, sort: getNextSort(sort, sortKey) })}
+        scroll={false}
+        className={`flex items-center gap-1 text-xs font-semibold uppercase tracking-wide transition hover:text-emerald-600 ${active ? "text-emerald-600" : "text-slate-500"}`}
+      >
+        {label}
+        <SortIndicator active={active} direction={sort.direction} />
+      </Link>
+    </th>
+  );
+}
+
+function MetadataCell({
+  conf,
+  column,
+  now,
+}: {
+  conf: Conference;
+  column: OptionalColumn;
+  now: Date;
+}) {
+  const empty = <span className="text-slate-400">—</span>;
+  switch (column) {
+    case "dates":
+      return conf.eventDates ? (
+        <div className="flex flex-col">
+          <span className="font-medium text-slate-900">
+            {formatDateRange(conf.eventDates)}
+          </span>
+          <span className="text-xs text-slate-500">
+            {formatEventCountdown(conf.eventDates, now)}
+          </span>
+        </div>
+      ) : (
+        empty
+      );
+    case "rank":
+      return conf.coreRank || conf.ccfRank ? (
+        <div className="flex flex-col gap-0.5 text-xs">
+          {conf.coreRank && (
+            <span>
+              <span className="text-slate-500">CORE</span>{" "}
+              <span className="font-semibold text-slate-900">{conf.coreRank}</span>
+            </span>
+          )}
+          {conf.ccfRank && (
+            <span>
+              <span className="text-slate-500">CCF</span>{" "}
+              <span className="font-semibold text-slate-900">{conf.ccfRank}</span>
+            </span>
+          )}
+        </div>
+      ) : (
+        empty
+      );
+    case "acceptance": {
+      const recent = getRecentAcceptanceRate(conf);
+      return recent ? (
+        <div className="flex flex-col">
+          <span className="font-medium text-slate-900">
+            {formatAcceptanceRate(recent.rate)}
+          </span>
+          <span className="text-xs text-slate-500">{recent.year}</span>
+        </div>
+      ) : (
+        empty
+      );
+    }
+    case "pages":
+      return conf.pageLimit !== undefined ? (
+        <span className="font-medium text-slate-900">{conf.pageLimit}</span>
+      ) : (
+        empty
+      );
+    case "review":
+      return conf.reviewModel || conf.reviewPlatform || conf.hasRebuttal !== undefined ? (
+        <div className="flex flex-col text-xs">
+          {conf.reviewModel && (
+            <span className="font-medium text-slate-900">
+              {reviewModelLabels[conf.reviewModel]}
+            </span>
+          )}
+          {conf.reviewPlatform && (
+            <span className="text-slate-600">
+              {reviewPlatformLabels[conf.reviewPlatform]}
+            </span>
+          )}
+          {conf.hasRebuttal !== undefined && (
+            <span className="text-slate-500">
+              {conf.hasRebuttal ? "Rebuttal" : "No rebuttal"}
+            </span>
+          )}
+        </div>
+      ) : (
+        empty
+      );
+  }
+}
+
+function ConferenceRow({
+  conf,
+  areaLabel,
+  workshopCount = 0,
+  nested = false,
+  columns,
+  conferenceById,
+  now,
+  renderedAt,
+}: {
+  conf: Conference;
+  areaLabel?: string;
+  workshopCount?: number;
+  nested?: boolean;
+  columns: OptionalColumn[];
+  conferenceById: Map<string, Conference>;
+  now: Date;
+  renderedAt: string;
+}) {
+  const occurrences = getDeadlineOccurrences(conf, now);
+  const [next, ...later] = occurrences;
+  const open = Boolean(next && next.date.getTime() > now.getTime());
+  const location = getLocationLabel(conf);
+  const locationHref = getConferenceLocationHref(conf);
+  const parent = conf.parent ? conferenceById.get(conf.parent) : undefined;
+
+  return (
+    <tr
+      className={nested ? "bg-slate-50/60 hover:bg-slate-50" : "hover:bg-slate-50/70"}
+    >
+      {areaLabel && (
+        <td className="px-6 py-4 text-sm text-slate-600">
+          <span className="inline-flex items-center gap-2 rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-600">
+            {areaLabel}
+          </span>
+        </td>
+      )}
+      <td className={`max-w-[18rem] py-4 pr-6 ${nested ? "pl-12" : "pl-6"}`}>
+        <div className="flex flex-col">
+          <span className="flex items-center gap-2 font-semibold text-slate-900">
+            <StarButton id={conf.id} acronym={conf.acronym} />
+            <Link
+              href={`/conferences/${conf.id}`}
+              className="transition hover:text-emerald-600"
+            >
+              {conf.acronym}
+            </Link>
+          </span>
+          <span className="text-xs text-slate-500">{conf.name}</span>
+          {conf.journalFirst?.length ? (
+            <span className="text-xs font-medium text-slate-500">
+              Journal-first:{" "}
+              {conf.journalFirst
+                .map(
+                  (track) =>
+                    conferenceById.get(track.journal)?.acronym ?? track.journal,
+                )
+                .join(", ")}
+            </span>
+          ) : null}
+          {parent && (
+            <span className="text-xs font-medium text-slate-500">
+              Workshop at{" "}
+              <Link
+                href={`/conferences/${parent.id}`}
+                className="text-emerald-600 hover:text-emerald-500"
+              >
+                {parent.acronym}
+              </Link>
+            </span>
+          )}
+          <div className="mt-2 flex flex-wrap gap-3 text-xs">
+            <Link
+              href={conf.website}
+              className="font-medium text-emerald-600 hover:text-emerald-500"
+              target="_blank"
+              rel="noreferrer"
+            >
+              Website
+            </Link>
+            {conf.submissionLink && (
+              <Link
+                href={conf.submissionLink}
+                className="font-medium text-emerald-600 hover:text-emerald-500"
+                target="_blank"
+                rel="noreferrer"
+              >
+                Call for papers
+              </Link>
+            )}
+            {conf.editions?.length ? (
+              <HistoryButton acronym={conf.acronym} name={conf.name}>
+                <VenueHistory conf={conf} now={now} />
+              </HistoryButton>
+            ) : null}
+            {(!conf.isRolling || occurrences.length > 0) && (
+              <ReminderButton
+                venue={toReminderVenue(conf, now)}
+                name={conf.name}
+              />
+            )}
+            {next && (
+              <a
+                href={`/calendar.ics?ids=${conf.id}`}
+                className="font-medium text-emerald-600 hover:text-emerald-500"
+              >
+                Add to calendar
+              </a>
+            )}
+            {workshopCount > 0 && (
+              <WorkshopToggle parentId={conf.id} count={workshopCount} />
+            )}
+          </div>
+        </div>
+      </td>
+      <td className="px-6 py-4 text-sm text-slate-700">
+        {conf.isRolling && (
+          <span className="inline-flex items-center gap-2 rounded-full bg-slate-100 px-3 py-1 text-xs font-medium text-slate-600">
+            Rolling
+          </span>
+        )}
+        {!conf.isRolling && next && (
+          <div className="flex flex-col">
+            <span className="text-xs font-semibold uppercase tracking-wide text-emerald-700">
+              {milestoneLabels[next.kind]}
+              {next.edition ? ` · ${next.edition.year}` : ""}
+            </span>
+            <span className="font-medium text-slate-900">
+              {next.label}
+              {next.estimated ? " · est." : ""}
+            </span>
+            <LocalTime
+              at={next.date.toISOString()}
+              unless={next.label}
+              className="text-xs text-slate-500"
+            />
+            {next.edition && (
+              <Link
+                href={next.edition.source}
+                className="text-xs font-medium text-emerald-600 hover:text-emerald-500"
+                target="_blank"
+                rel="noreferrer"
+              >
+                Confirmed
+              </Link>
+            )}
+            {later.length > 0 && (
+              <ul className="mt-1 space-y-0.5 text-xs text-slate-500">
+                {later.map((occurrence) => (
+                  <li key={getOccurrenceKey(occurrence)}>
+                    {milestoneLabels[occurrence.kind]}: {occurrence.label}
+                    {occurrence.estimated ? " · est." : ""}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {conf.note && (
+              <span className="text-xs text-slate-500">{conf.note}</span>
+            )}
+          </div>
+        )}
+        {!conf.isRolling && !next && (
+          <span className="text-slate-500">TBA</span>
+        )}
+      </td>
+      <td className="px-6 py-4 text-sm font-semibold text-emerald-600">
+        {conf.isRolling ? (
+          "Always open"
+        ) : next ? (
+          <Countdown target={next.date.toISOString()} renderedAt={renderedAt} />
+        ) : (
+          "Closed"
+        )}
+        {open && next && (
+          <span className="block text-xs font-normal text-slate-500">
+            until {milestoneLabels[next.kind].toLowerCase()}
+          </span>
+        )}
+      </td>
+      <td className="px-6 py-4 text-sm text-slate-600">
+        {location ? (
+          locationHref ? (
+            <Link
+              href={locationHref}
+              target="_blank"
+              rel="noreferrer"
+              className="inline-flex items-center gap-1 text-emerald-600 transition hover:text-emerald-500"
+            >
+              {location}
+              <span aria-hidden="true" className="text-xs">
+                ↗
+              </span>
+            </Link>
+          ) : (
+            <span>{location}</span>
+          )
+        ) : (
+          "—"
+        )}
+      </td>
+      {columns.map((column) => (
+        <td key={column} className="px-6 py-4 text-sm text-slate-700">
+          <MetadataCell conf={conf} column={column} now={now} />
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+/**
+ * Sorted venue rows with sortable headers. In "My venues" every row is sent
+ * and the ones starred in this browser are picked on the client.
+ */
+export function ConferenceTable({
+  groups,
+  state,
+  showArea = false,
+  starredOnly = false,
+  conferenceById,
+  now,
+  renderedAt,
+}: {
+  groups: ConferenceRowGroup[];
+  state: DashboardState;
+  showArea?: boolean;
+  starredOnly?: boolean;
+  conferenceById: Map<string, Conference>;
+  now: Date;
+  renderedAt: string;
+}) {
+  const { columns } = state;
+  const rowProps = { columns, conferenceById, now, renderedAt };
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <table className="min-w-full divide-y divide-slate-200">
+        <thead className="bg-slate-50">
+          <tr className="text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
+            {showArea && (
+              <SortableHeader label="Area" sortKey="area" state={state} />
+            )}
+            <SortableHeader label="Venue" sortKey="acronym" state={state} />
+            <SortableHeader label="Deadline" sortKey="deadline" state={state} />
+            <SortableHeader label="Countdown" sortKey="countdown" state={state} />
+            <SortableHeader label="Location" sortKey="location" state={state} />
+            {columns.map((column) => (
+              <SortableHeader
+                key={column}
+                label={optionalColumnLabels[column]}
+                sortKey={column}
+                state={state}
+              />
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 text-sm text-slate-700">
+          {groups.map(({ conf, workshops, area, standalone }) => {
+            const key = area ? `${conf.id}-${slugify(area)}` : conf.id;
+            // Workshops follow their parent's row while it is expanded.
+            const group = (
+              <>
+                <ConferenceRow
+                  conf={conf}
+                  areaLabel={showArea ? area : undefined}
+                  workshopCount={workshops.length}
+                  {...rowProps}
+                />
+                {workshops.length > 0 && (
+                  <WorkshopRows parentId={conf.id}>
+                    {workshops.map((workshop) => (
+                      <ConferenceRow
+                        key={workshop.id}
+                        conf={workshop}
+                        areaLabel={showArea ? areaLabelFor(workshop) : undefined}
+                        nested
+                        {...rowProps}
+                      />
+                    ))}
+                  </WorkshopRows>
+                )}
+              </>
+            );
+
+            if (!starredOnly) {
+              return <Fragment key={key}>{group}</Fragment>;
+            }
+            return (
+              <IfStarred
+                key={key}
+                ids={[conf.id]}
+                unless={standalone && conf.parent ? [conf.parent] : []}
+              >
+                {group}
+              </IfStarred>
+            );
+          })}
+          {starredOnly && (
+            <IfStarred
+              ids={groups.map((group) => group.conf.id)}
+              fallback={
+                <tr>
+                  <td
+                    colSpan={(showArea ? 5 : 4) + columns.length}
+                    className="px-6 py-10 text-center text-sm text-slate-500"
+                  >
+                    Star venues with ☆ to add them to your list.
+                  </td>
+                </tr>
+              }
+            >
+              {null}
+            </IfStarred>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+import { formatCountdown } from "@/lib/deadlines";
+
+// Every countdown on the page shares one timer, which stops while the tab is
+// hidden and catches up as soon as it is shown again.
+const secondListeners = new Set<() => void>();
+let secondTimer: ReturnType<typeof setInterval> | undefined;
+
+function notifySeconds() {
+  secondListeners.forEach((listener) => listener());
+}
+
+function syncSecondTimer() {
+  const running = secondListeners.size > 0 && !document.hidden;
+  if (running && secondTimer === undefined) {
+    secondTimer = setInterval(notifySeconds, 1000);
+  } else if (!running && secondTimer !== undefined) {
+    clearInterval(secondTimer);
+    secondTimer = undefined;
+  }
+}
+
+function handleVisibilityChange() {
+  syncSecondTimer();
+  if (!document.hidden) notifySeconds();
+}
+
+function subscribeToSeconds(listener: () => void): () => void {
+  secondListeners.add(listener);
+  if (secondListeners.size === 1) {
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+  }
+  syncSecondTimer();
+  return () => {
+    secondListeners.delete(listener);
+    if (secondListeners.size === 0) {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    }
+    syncSecondTimer();
+  };
+}
+
+function readSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Live countdown to an ISO timestamp. The server counts from `renderedAt`, so
+ * the page reads correctly before hydration; without it a placeholder shows.
+ */
+export function Countdown({
+  target,
+  renderedAt,
+  className,
+}: {
+  target: string;
+  renderedAt?: string;
+  className?: string;
+}) {
+  const seconds = useSyncExternalStore(subscribeToSeconds, readSeconds, () =>
+    renderedAt ? Math.floor(Date.parse(renderedAt) / 1000) : null,
+  );
+
+  return (
+    <span className={className} suppressHydrationWarning>
+      {seconds === null
+        ? "—"
+        : formatCountdown(new Date(target), new Date(seconds * 1000))}
+    </span>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useOptimistic, useRef, useState, useTransition } from "react";
+
+import { areaOrder } from "@/data/conferences";
+import {
+  type DashboardState,
+  getDashboardHref,
+  serializeDashboardState,
+} from "@/lib/dashboard-state";
+import type { ConferenceFilters } from "@/lib/filters";
+import { FilterBar } from "@/components/filter-bar";
+
+// The search box asks the server once typing pauses, not on every keystroke.
+const SEARCH_DELAY_MS = 300;
+
+interface PendingChange {
+  filters: ConferenceFilters;
+  href: string;
+  /** Replaces the history entry rather than adding one, as typing does */
+  replace: boolean;
+}
+
+/**
+ * The filter bar, writing each change to the URL. The server renders the
+ * filtered table for the new URL; until it arrives the controls already show
+ * the change. Offline, a view saved by the service worker loads as a whole
+ * page, and any other change waits until the browser is back online.
+ */
+export function DashboardFilters({
+  state,
+  resultCount,
+}: {
+  state: DashboardState;
+  resultCount: number;
+}) {
+  const router = useRouter();
+  const [, startTransition] = useTransition();
+  const [optimisticFilters, setOptimisticFilters] = useOptimistic(state.filters);
+  // Filters shown but not yet sent: a search still being typed, or a change
+  // made offline.
+  const [draft, setDraft] = useState<ConferenceFilters | null>(null);
+  const [offlinePending, setOfflinePending] = useState<PendingChange | null>(
+    null,
+  );
+  const searchTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const filters = draft ?? optimisticFilters;
+
+  const send = async (change: PendingChange) => {
+    if (!navigator.onLine) {
+      const saved = "caches" in window && (await caches.match(change.href));
+      if (!saved) {
+        setOfflinePending(change);
+        return;
+      }
+      if (change.replace) {
+        window.location.replace(change.href);
+      } else {
+        window.location.assign(change.href);
+      }
+      return;
+    }
+    setOfflinePending(null);
+    startTransition(() => {
+      setOptimisticFilters(change.filters);
+      setDraft(null);
+      if (change.replace) {
+        router.replace(change.href, { scroll: false });
+      } else {
+        router.push(change.href, { scroll: false });
+      }
+    });
+  };
+
+  useEffect(() => {
+    if (!offlinePending) return;
+    const retry = () => void send(offlinePending);
+    window.addEventListener("online", retry);
+    return () => window.removeEventListener("online", retry);
+  });
+
+  useEffect(() => () => clearTimeout(searchTimer.current), []);
+
+  const setFilters = (next: ConferenceFilters) => {
+    // Typing in the search box should not flood the history with entries.
+    const typingOnly =
+      serializeDashboardState({ ...state, filters: { ...next, query: "" } }) ===
+      serializeDashboardState({ ...state, filters: { ...filters, query: "" } });
+    const change = {
+      filters: next,
+      href: getDashboardHref({ ...state, filters: next }),
+      replace: typingOnly,
+    };
+    clearTimeout(searchTimer.current);
+    setDraft(next);
+    if (typingOnly) {
+      searchTimer.current = setTimeout(() => void send(change), SEARCH_DELAY_MS);
+    } else {
+      void send(change);
+    }
+  };
+
+  return (
+    <FilterBar
+      filters={filters}
+      areas={areaOrder}
+      resultCount={resultCount}
+      notice={
+        offlinePending
+          ? "You are offline and this view is not saved on this device. It loads once you are back online."
+          : undefined
+      }
+      onChange={setFilters}
+    />
+  );
+}
@@ -0,0 +1,464 @@
+import dynamic from "next/dynamic";
+import Link from "next/link";
+
+import type { Conference } from "@/data/conferences";
+import {
+  type DashboardState,
+  getDashboardHref,
+  type OptionalColumn,
+  optionalColumnLabels,
+  type ViewMode,
+  withColumnToggled,
+  withViewMode,
+} from "@/lib/dashboard-state";
+import { getUpcomingDeadlines } from "@/lib/deadlines";
+import { emptyFilters, matchesFilters } from "@/lib/filters";
+import { getNextPivot } from "@/lib/clock";
+import { getJournalFirstHosts, isJournal } from "@/lib/journals";
+import { slugify } from "@/lib/slug";
+import { groupVenuesByCity } from "@/lib/map";
+import { toReminderVenue } from "@/lib/reminders";
+import {
+  areaLabelFor,
+  groupByArea,
+  resolveAreaOrder,
+  sortConferences,
+} from "@/lib/sort";
+import { getTimelineRows, getTimelineWindow } from "@/lib/timeline";
+import { nestWorkshops } from "@/lib/workshops";
+import {
+  ConferenceTable,
+  type ConferenceRowGroup,
+} from "@/components/conference-table";
+import { DashboardFilters } from "@/components/dashboard-filters";
+import { DataFreshness } from "@/components/data-freshness";
+import { DeadlineTimeline } from "@/components/deadline-timeline";
+import { JournalList } from "@/components/journal-list";
+import { TimeZoneSelect } from "@/components/local-time";
+import { NextUp } from "@/components/next-up";
+import { PivotRefresh } from "@/components/pivot-refresh";
+import { ReminderAlerts } from "@/components/reminder-alerts";
+import { ScrollToTop } from "@/components/scroll-to-top";
+import { IfStarred } from "@/components/starred";
+import { WatchlistTools } from "@/components/watchlist-tools";
+
+// The world atlas and its projection are only needed by the Map view, so they
+// load in their own chunk instead of with the table.
+const VenueMap = dynamic(
+  () => import("@/components/venue-map").then((mod) => mod.VenueMap),
+  {
+    loading: () => (
+      <div className="h-96 animate-pulse rounded-2xl border border-slate-200 bg-slate-100" />
+    ),
+  },
+);
+
+const viewOptions: Array<{ id: ViewMode; label: string }> = [
+  { id: "combined", label: "All conferences" },
+  { id: "sectioned", label: "Group by area" },
+  { id: "starred", label: "My venues" },
+  { id: "timeline", label: "Timeline" },
+  { id: "map", label: "Map" },
+];
+
+/**
+ * The dashboard for one URL at one moment, rendered on the server: venues are
+ * filtered and sorted here, and only the parts that tick or depend on this
+ * browser (countdowns, stars, reminders, the display zone, the filter
+ * controls) hydrate as client components.
+ */
+export function Dashboard({
+  conferences,
+  state,
+  renderedAt,
+  dataUpdatedOn,
+}: {
+  conferences: Conference[];
+  state: DashboardState;
+  /** ISO timestamp the page is rendered for */
+  renderedAt: string;
+  /** Day of the latest change log entry, formatted as YYYY-MM-DD */
+  dataUpdatedOn?: string;
+}) {
+  const now = new Date(renderedAt);
+  const { viewMode, sort, filters, columns } = state;
+  const starredOnly = viewMode === "starred";
+  const conferenceById = new Map(conferences.map((conf) => [conf.id, conf]));
+  const sorted = (entries: Conference[]) =>
+    sortConferences(entries, sort, now);
+
+  // Workshops matching the other filters always nest under a listed parent;
+  // "Include workshops" decides whether they also stand on their own, in the
+  // result count, Next up and the timeline.
+  const matching = conferences.filter((conf) =>
+    matchesFilters(conf, { ...filters, workshops: true }, now),
+  );
+  const visible = matching.filter((conf) => filters.workshops || !conf.parent);
+
+  // A workshop someone starred belongs in "My venues" whether or not
+  // workshops are included elsewhere.
+  const standaloneWorkshops = filters.workshops || starredOnly;
+
+  // Journals have no cycle to sort by, so they get a section of their own.
+  const listed = new Set(matching.map((conf) => conf.id));
+  const visibleConferences = matching.filter(
+    (conf) =>
+      !isJournal(conf) &&
+      (standaloneWorkshops || !conf.parent || listed.has(conf.parent)),
+  );
+  const journalRows = sorted(visible.filter(isJournal));
+  const journalIds = journalRows.map((conf) => conf.id);
+
+  const combinedRows = sorted(visibleConferences).map((conf) => ({
+    conf,
+    area: areaLabelFor(conf),
+  }));
+  const nested = nestWorkshops(
+    combinedRows,
+    (row) => row.conf,
+    standaloneWorkshops,
+  );
+  const topLevel = new Set(nested.rows.map((row) => row.conf.id));
+  const tableGroups: ConferenceRowGroup[] = (
+    starredOnly ? combinedRows : nested.rows
+  ).flatMap(({ conf, area }) => {
+    if (topLevel.has(conf.id)) {
+      const workshops = (nested.workshops.get(conf.id) ?? []).map(
+        (row) => row.conf,
+      );
+      return [{ conf, area, workshops }];
+    }
+    // A starred workshop also gets a row of its own in "My venues" while its
+    // parent is not starred.
+    return [{ conf, area, workshops: [], standalone: true }];
+  });
+  const tableIds = tableGroups.map((group) => group.conf.id);
+
+  const grouped = groupByArea(visibleConferences);
+  const areaKeys = resolveAreaOrder(grouped);
+  const areaGroups = Object.fromEntries(
+    areaKeys.map((area) => {
+      const rows = nestWorkshops(
+        sorted(grouped[area] ?? []),
+        (conf) => conf,
+        filters.workshops,
+      );
+      return [
+        area,
+        rows.rows.map((conf) => ({
+          conf,
+          workshops: rows.workshops.get(conf.id) ?? [],
+        })),
+      ];
+    }),
+  );
+
+  const nextUp = getUpcomingDeadlines(visible, now).map(({ conf, kind, date }) => ({
+    id: conf.id,
+    acronym: conf.acronym,
+    parentAcronym: conf.parent
+      ? conferenceById.get(conf.parent)?.acronym
+      : undefined,
+    kind,
+    at: date.toISOString(),
+  }));
+
+  const timelineWindow = getTimelineWindow(now);
+  const timelineRows =
+    viewMode === "timeline" ? getTimelineRows(visible, timelineWindow, now) : [];
+  const venueMap =
+    viewMode === "map"
+      ? groupVenuesByCity(
+          // Workshops meet where their parent does; journals meet nowhere.
+          visibleConferences.filter((conf) => !conf.parent),
+          now,
+        )
+      : { clusters: [], unplaced: [] };
+
+  const areaMetadata =
+    viewMode === "sectioned"
+      ? [
+          ...areaKeys.map((area) => ({ name: area, id: slugify(area) })),
+          ...(journalRows.length ? [{ name: "Journals", id: "journals" }] : []),
+        ]
+      : [];
+
+  const conferenceTable = (
+    <ConferenceTable
+      groups={tableGroups}
+      state={state}
+      showArea
+      starredOnly={starredOnly}
+      conferenceById={conferenceById}
+      now={now}
+      renderedAt={renderedAt}
+    />
+  );
+
+  const journalSection = (
+    <section id="journals" className="space-y-4 scroll-mt-28">
+      <div>
+        <h2 className="text-2xl font-semibold text-slate-900">Journals</h2>
+        <p className="text-sm text-slate-600">
+          Rolling submissions, special issues with their own deadlines, and
+          conferences where journal papers can be presented.
+        </p>
+      </div>
+      <JournalList
+        journals={journalRows}
+        hosts={getJournalFirstHosts(conferences)}
+        starredOnly={starredOnly}
+        now={now}
+        renderedAt={renderedAt}
+      />
+    </section>
+  );
+
+  return (
+    <div className="min-h-screen bg-slate-100 pb-16">
+      <PivotRefresh
+        at={getNextPivot(conferences, now, filters.withinDays).toISOString()}
+        renderedAt={renderedAt}
+      />
+      <header className="border-b border-slate-200 bg-white/90 backdrop-blur">
+        <div className="mx-auto flex max-w-6xl flex-col gap-6 px-6 py-10 md:flex-row md:items-center md:justify-between">
+          <div>
+            <h1 className="text-3xl font-semibold text-slate-900 md:text-4xl">
+              Conference Deadlines
+            </h1>
+            <p className="mt-2 max-w-xl text-sm text-slate-600 md:text-base">
+              Track submission timelines for top AI, ML, robotics, and related
+              venues. Dates are based on historical schedules—always confirm
+              details on the official conference websites.
+            </p>
+          </div>
+          <div className="flex w-full flex-col gap-3 md:max-w-sm md:items-end">
+            <nav
+              aria-label="Views"
+              className="inline-flex rounded-full border border-slate-200 bg-white p-1 text-xs font-medium text-slate-600 shadow-sm"
+            >
+              {viewOptions.map((option) => {
+                const active = viewMode === option.id;
+                return (
+                  <Link
+                    key={option.id}
+                    href={getDashboardHref(withViewMode(state, option.id))}
+                    scroll={false}
+                    aria-current={active ? "page" : undefined}
+                    className={`rounded-full px-3 py-1.5 transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500 ${
+                      active
+                        ? "bg-emerald-500 text-white shadow"
+                        : "text-slate-600 hover:text-emerald-600"
+                    }`}
+                  >
+                    {option.label}
+                  </Link>
+                );
+              })}
+            </nav>
+            <TimeZoneSelect />
+            <a
+              href="/calendar.ics"
+              className="text-xs font-medium text-emerald-600 transition hover:text-emerald-500"
+            >
+              Subscribe to calendar (.ics)
+            </a>
+            <a
+              href="/feed.xml"
+              className="text-xs font-medium text-emerald-600 transition hover:text-emerald-500"
+            >
+              Changes feed (Atom)
+            </a>
+            <DataFreshness updatedOn={dataUpdatedOn} />
+            {areaMetadata.length > 0 && (
+              <nav className="flex flex-wrap gap-2 text-xs font-medium text-slate-600 md:justify-end">
+                {areaMetadata.map((entry) => (
+                  <a
+                    key={entry.id}
+                    href={`#${entry.id}`}
+                    className="rounded-full border border-slate-200 bg-white px-3 py-1 transition hover:border-emerald-200 hover:text-emerald-600"
+                  >
+                    {entry.name}
+                  </a>
+                ))}
+              </nav>
+            )}
+          </div>
+          <NextUp deadlines={nextUp} renderedAt={renderedAt} />
+        </div>
+      </header>
+
+      <main className="mx-auto mt-10 flex max-w-6xl flex-col gap-12 px-6">
+        <DashboardFilters state={state} resultCount={visible.length} />
+        {viewMode !== "timeline" && viewMode !== "map" && (
+          <div className="-mt-8 flex flex-wrap items-center gap-2 text-xs font-medium text-slate-600">
+            <span className="text-slate-500">Columns</span>
+            {(Object.keys(optionalColumnLabels) as OptionalColumn[]).map(
+              (column) => {
+                const active = columns.includes(column);
+                return (
+                  <Link
+                    key={column}
+                    href={getDashboardHref(withColumnToggled(state, column))}
+                    scroll={false}
+                    aria-current={active ? "true" : undefined}
+                    className={`rounded-full border px-3 py-1 transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500 ${
+                      active
+                        ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+                        : "border-slate-200 bg-white hover:border-emerald-200 hover:text-emerald-600"
+                    }`}
+                  >
+                    {optionalColumnLabels[column]}
+                  </Link>
+                );
+              },
+            )}
+          </div>
+        )}
+        {visible.length === 0 ? (
+          <section className="rounded-2xl border border-slate-200 bg-white p-10 text-center text-sm text-slate-600 shadow-sm">
+            No venues match these filters.{" "}
+            <Link
+              href={getDashboardHref({ ...state, filters: emptyFilters })}
+              scroll={false}
+              className="font-medium text-emerald-600 transition hover:text-emerald-500"
+            >
+              Clear filters
+            </Link>
+          </section>
+        ) : viewMode === "timeline" ? (
+          <section className="space-y-4">
+            <div>
+              <h2 className="text-2xl font-semibold text-slate-900">
+                The year ahead
+              </h2>
+              <p className="text-sm text-slate-600">
+                Every upcoming deadline over the next twelve months, colored by
+                area. Hollow dashed markers are estimates from past cycles; bars
+                show conference dates once announced.
+              </p>
+            </div>
+            {timelineRows.length > 0 ? (
+              <DeadlineTimeline
+                rows={timelineRows}
+                window={timelineWindow}
+                now={now}
+              />
+            ) : (
+              <p className="rounded-2xl border border-slate-200 bg-white p-10 text-center text-sm text-slate-600 shadow-sm">
+                No deadlines fall within the next twelve months.
+              </p>
+            )}
+          </section>
+        ) : viewMode === "map" ? (
+          <section className="space-y-4">
+            <div>
+              <h2 className="text-2xl font-semibold text-slate-900">
+                Where venues meet
+              </h2>
+              <p className="text-sm text-slate-600">
+                Each marker is a host city for the next edition; numbers show
+                how many venues meet there. Select one to see their deadlines.
+              </p>
+            </div>
+            <VenueMap
+              clusters={venueMap.clusters}
+              unplacedCount={venueMap.unplaced.length}
+              renderedAt={renderedAt}
+            />
+          </section>
+        ) : viewMode === "starred" ? (
+          <section className="space-y-4">
+            <div>
+              <h2 className="text-2xl font-semibold text-slate-900">My venues</h2>
+              <p className="text-sm text-slate-600">
+                Venues you starred, kept in this browser. Share the list with
+                your lab using a code or a JSON file.
+              </p>
+            </div>
+            <WatchlistTools knownIds={conferences.map((conf) => conf.id)} />
+            {/* Journals are listed in a section of their own, so an empty
+                conference table is only shown when there is nothing else to
+                show either. */}
+            <IfStarred ids={journalIds} unless={tableIds} fallback={conferenceTable}>
+              {null}
+            </IfStarred>
+          </section>
+        ) : viewMode === "combined" ? (
+          tableGroups.length > 0 || journalRows.length === 0 ? (
+            <section className="space-y-4">
+              <div>
+                <h2 className="text-2xl font-semibold text-slate-900">
+                  All conferences
+                </h2>
+                <p className="text-sm text-slate-600">
+                  Browse every venue in one list. Sort columns to surface the
+                  next deadlines you care about.
+                </p>
+              </div>
+              {conferenceTable}
+            </section>
+          ) : null
+        ) : (
+          areaKeys.map((area) => (
+            <section
+              key={area}
+              id={slugify(area)}
+              className="space-y-4 scroll-mt-28"
+            >
+              <div className="flex flex-wrap items-end justify-between gap-3">
+                <div>
+                  <h2 className="text-2xl font-semibold text-slate-900">
+                    {area}
+                  </h2>
+                  <p className="text-sm text-slate-600">
+                    Submission countdowns update live — times shown are based on
+                    the AoE standard unless noted.
+                  </p>
+                </div>
+                <a
+                  href={`/calendar.ics?area=${slugify(area)}`}
+                  className="text-xs font-medium text-emerald-600 transition hover:text-emerald-500"
+                >
+                  Subscribe to {area} (.ics)
+                </a>
+              </div>
+              <ConferenceTable
+                groups={areaGroups[area] ?? []}
+                state={state}
+                conferenceById={conferenceById}
+                now={now}
+                renderedAt={renderedAt}
+              />
+            </section>
+          ))
+        )}
+
+        {viewMode !== "timeline" &&
+          viewMode !== "map" &&
+          journalRows.length > 0 &&
+          (starredOnly ? (
+            <IfStarred ids={journalIds}>{journalSection}</IfStarred>
+          ) : (
+            journalSection
+          ))}
+
+        <section className="rounded-2xl border border-emerald-200 bg-emerald-50/80 p-6 text-sm leading-relaxed text-emerald-900">
+          <h3 className="text-base font-semibold text-emerald-900">
+            Disclaimer
+          </h3>
+          <p className="mt-2">
+            Deadlines are compiled from recent conference cycles and may shift
+            year to year. Always confirm the latest details, including abstract
+            deadlines and exact time zones, on the official conference pages
+            before submitting your work.
+          </p>
+        </section>
+      </main>
+      <ReminderAlerts
+        venues={conferences.map((conf) => toReminderVenue(conf, now))}
+      />
+      <ScrollToTop />
+    </div>
+  );
+}
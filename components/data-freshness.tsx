@@ -0,0 +1,46 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+function subscribeToOnline(listener: () => void): () => void {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+}
+
+function readOnline(): boolean {
+  return navigator.onLine;
+}
+
+function formatDay(day: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  }).format(new Date(`${day}T00:00:00Z`));
+}
+
+/**
+ * The day the venue data last changed, taken from the change log, and
+ * whether the page on screen is a saved copy.
+ */
+export function DataFreshness({ updatedOn }: { updatedOn?: string }) {
+  const online = useSyncExternalStore(subscribeToOnline, readOnline, () => true);
+  if (online && !updatedOn) return null;
+  return (
+    <p className="flex items-center gap-2 text-xs text-slate-500">
+      {!online && (
+        <span className="rounded-full bg-amber-100 px-2 py-0.5 font-semibold text-amber-700">
+          Offline
+        </span>
+      )}
+      {online ? "Data updated" : "Showing saved data"}
+      {updatedOn &&
+        `${online ? " " : ", last updated "}${formatDay(updatedOn)}`}
+    </p>
+  );
+}
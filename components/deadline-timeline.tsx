@@ -0,0 +1,197 @@
+"use client";
+
+import Link from "next/link";
+
+import { areaOrder, milestoneLabels } from "@/data/conferences";
+import { formatDeadlineLabel, getOccurrenceKey } from "@/lib/deadlines";
+import { formatDateRange } from "@/lib/history";
+import {
+  getTimelineOffset,
+  type TimelineRow,
+  type TimelineWindow,
+} from "@/lib/timeline";
+import { useDisplayZone } from "@/components/local-time";
+
+interface AreaColor {
+  /** Filled marker for confirmed deadlines */
+  solid: string;
+  /** Outline marker for estimated deadlines */
+  outline: string;
+  /** Conference dates bar */
+  bar: string;
+}
+
+// Listed in full so Tailwind picks up every class.
+const areaColors: Record<string, AreaColor> = {
+  "Machine Learning": {
+    solid: "border-emerald-500 bg-emerald-500",
+    outline: "border-emerald-500 bg-white",
+    bar: "bg-emerald-200",
+  },
+  "Artificial Intelligence": {
+    solid: "border-sky-500 bg-sky-500",
+    outline: "border-sky-500 bg-white",
+    bar: "bg-sky-200",
+  },
+  "Computer Vision": {
+    solid: "border-violet-500 bg-violet-500",
+    outline: "border-violet-500 bg-white",
+    bar: "bg-violet-200",
+  },
+  "Natural Language Processing": {
+    solid: "border-amber-500 bg-amber-500",
+    outline: "border-amber-500 bg-white",
+    bar: "bg-amber-200",
+  },
+  Robotics: {
+    solid: "border-rose-500 bg-rose-500",
+    outline: "border-rose-500 bg-white",
+    bar: "bg-rose-200",
+  },
+  "Data Mining & IR": {
+    solid: "border-cyan-500 bg-cyan-500",
+    outline: "border-cyan-500 bg-white",
+    bar: "bg-cyan-200",
+  },
+  "Graphics & Multimedia": {
+    solid: "border-fuchsia-500 bg-fuchsia-500",
+    outline: "border-fuchsia-500 bg-white",
+    bar: "bg-fuchsia-200",
+  },
+  "Responsible AI & Society": {
+    solid: "border-lime-500 bg-lime-500",
+    outline: "border-lime-500 bg-white",
+    bar: "bg-lime-200",
+  },
+};
+
+const fallbackColor: AreaColor = {
+  solid: "border-slate-500 bg-slate-500",
+  outline: "border-slate-500 bg-white",
+  bar: "bg-slate-200",
+};
+
+function colorFor(area: string): AreaColor {
+  return areaColors[area] ?? fallbackColor;
+}
+
+/**
+ * Gantt-style year view: one row per venue, deadlines as markers and a
+ * shaded line through today.
+ */
+export function DeadlineTimeline({
+  rows,
+  window,
+  now,
+}: {
+  rows: TimelineRow[];
+  window: TimelineWindow;
+  now: Date;
+}) {
+  const displayZone = useDisplayZone();
+  const today = getTimelineOffset(window, now);
+  const areas = areaOrder.filter((area) =>
+    rows.some((row) => row.conf.area === area),
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-600">
+        {areas.map((area) => (
+          <span key={area} className="inline-flex items-center gap-1.5">
+            <span
+              aria-hidden="true"
+              className={`h-2.5 w-2.5 rounded-full border-2 ${colorFor(area).solid}`}
+            />
+            {area}
+          </span>
+        ))}
+        <span className="inline-flex items-center gap-1.5 text-slate-500">
+          <span
+            aria-hidden="true"
+            className="h-2.5 w-2.5 rounded-full border-2 border-dashed border-slate-500 bg-white"
+          />
+          Estimated
+        </span>
+        <span className="inline-flex items-center gap-1.5 text-slate-500">
+          <span aria-hidden="true" className="h-2 w-5 rounded-full bg-slate-200" />
+          Conference dates
+        </span>
+      </div>
+
+      <div className="overflow-x-auto rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <div className="min-w-[48rem]">
+          <div className="flex border-b border-slate-200 bg-slate-50 text-xs font-semibold uppercase tracking-wide text-slate-500">
+            <div className="w-32 shrink-0 px-4 py-3">Venue</div>
+            <div className="relative flex-1">
+              {window.months.map((month) => (
+                <span
+                  key={month.label}
+                  className="absolute top-3 whitespace-nowrap pl-1"
+                  style={{ left: `${month.offset * 100}%` }}
+                >
+                  {month.label}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <ul className="divide-y divide-slate-100">
+            {rows.map(({ conf, deadlines, event }) => {
+              const color = colorFor(conf.area);
+              return (
+                <li key={conf.id} className="flex items-stretch hover:bg-slate-50/70">
+                  <div className="w-32 shrink-0 px-4 py-2 text-sm">
+                    <Link
+                      href={`/conferences/${conf.id}`}
+                      className="font-semibold text-slate-900 transition hover:text-emerald-600"
+                    >
+                      {conf.acronym}
+                    </Link>
+                  </div>
+                  <div className="relative h-10 flex-1">
+                    {window.months.map((month) => (
+                      <span
+                        key={month.label}
+                        aria-hidden="true"
+                        className="absolute inset-y-0 border-l border-slate-100"
+                        style={{ left: `${month.offset * 100}%` }}
+                      />
+                    ))}
+                    <span
+                      aria-hidden="true"
+                      className="absolute inset-y-0 border-l-2 border-slate-900/20"
+                      style={{ left: `${today * 100}%` }}
+                    />
+                    {event && (
+                      <span
+                        title={`${conf.acronym}: ${formatDateRange(event.dates)}${event.location ? ` · ${event.location}` : ""}`}
+                        className={`absolute top-1/2 h-2 min-w-1.5 -translate-y-1/2 rounded-full ${color.bar}`}
+                        style={{
+                          left: `${event.offset * 100}%`,
+                          width: `${event.width * 100}%`,
+                        }}
+                      />
+                    )}
+                    {deadlines.map((marker) => (
+                      <span
+                        key={getOccurrenceKey(marker)}
+                        title={`${conf.acronym} · ${milestoneLabels[marker.kind]}: ${formatDeadlineLabel(marker.date, displayZone)}${marker.estimated ? " (estimated)" : ""}`}
+                        className={`absolute top-1/2 h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 ${
+                          marker.estimated
+                            ? `border-dashed ${color.outline}`
+                            : color.solid
+                        }`}
+                        style={{ left: `${marker.offset * 100}%` }}
+                      />
+                    ))}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
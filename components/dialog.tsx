@@ -0,0 +1,73 @@
+"use client";
+
+import { type ReactNode, useEffect, useId } from "react";
+import { createPortal } from "react-dom";
+
+const widths = {
+  md: "max-w-md",
+  lg: "max-w-lg",
+};
+
+/**
+ * Modal with a title bar, closed by its × button, Escape or the backdrop.
+ * Rendered into `<body>`, so opening it from a table cell inherits nothing.
+ */
+export function Dialog({
+  title,
+  subtitle,
+  closeLabel,
+  width = "md",
+  onClose,
+  children,
+}: {
+  title: string;
+  subtitle?: string;
+  closeLabel: string;
+  width?: keyof typeof widths;
+  onClose: () => void;
+  children: ReactNode;
+}) {
+  const titleId = useId();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        className={`max-h-[85vh] w-full ${widths[width]} overflow-y-auto rounded-2xl bg-white p-6 shadow-xl`}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="mb-4 flex items-start justify-between gap-4">
+          <div>
+            <h2 id={titleId} className="text-xl font-semibold text-slate-900">
+              {title}
+            </h2>
+            {subtitle && <p className="text-xs text-slate-500">{subtitle}</p>}
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label={closeLabel}
+            className="rounded-full px-2 text-xl leading-none text-slate-400 transition hover:text-slate-600"
+          >
+            ×
+          </button>
+        </div>
+        {children}
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import {
+  type ConferenceFilters,
+  emptyFilters,
+  hasActiveFilters,
+  type ScheduleFilter,
+  type StatusFilter,
+  type VenueTypeFilter,
+} from "@/lib/filters";
+import { type Continent, continents } from "@/lib/geo";
+
+const statusOptions: Array<{ id: StatusFilter; label: string }> = [
+  { id: "all", label: "Any status" },
+  { id: "confirmed", label: "Confirmed only" },
+  { id: "estimated", label: "Estimated" },
+];
+
+const scheduleOptions: Array<{ id: ScheduleFilter; label: string }> = [
+  { id: "all", label: "Any schedule" },
+  { id: "dated", label: "Dated" },
+  { id: "rolling", label: "Rolling" },
+];
+
+const venueTypeOptions: Array<{ id: VenueTypeFilter; label: string }> = [
+  { id: "all", label: "All venues" },
+  { id: "conference", label: "Conferences" },
+  { id: "journal", label: "Journals" },
+];
+
+const windowOptions = [7, 30, 90];
+
+function chipClass(active: boolean): string {
+  return `rounded-full border px-3 py-1 text-xs font-medium transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500 ${
+    active
+      ? "border-emerald-500 bg-emerald-500 text-white shadow"
+      : "border-slate-200 bg-white text-slate-600 hover:border-emerald-200 hover:text-emerald-600"
+  }`;
+}
+
+export function FilterBar({
+  filters,
+  areas,
+  resultCount,
+  notice,
+  onChange,
+}: {
+  filters: ConferenceFilters;
+  areas: readonly string[];
+  resultCount: number;
+  /** Shown under the search box, e.g. why a change has not applied yet */
+  notice?: string;
+  onChange: (next: ConferenceFilters) => void;
+}) {
+  const update = (patch: Partial<ConferenceFilters>) =>
+    onChange({ ...filters, ...patch });
+
+  const toggleArea = (area: string) =>
+    update({
+      areas: filters.areas.includes(area)
+        ? filters.areas.filter((entry) => entry !== area)
+        : [...filters.areas, area],
+    });
+
+  const toggleContinent = (continent: Continent) =>
+    update({
+      continents: filters.continents.includes(continent)
+        ? filters.continents.filter((entry) => entry !== continent)
+        : [...filters.continents, continent],
+    });
+
+  return (
+    <section
+      aria-label="Search and filters"
+      className="flex flex-col gap-4 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm"
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(event) => update({ query: event.target.value })}
+          placeholder="Search venues, locations, notes…"
+          aria-label="Search conferences"
+          className="min-w-[16rem] flex-1 rounded-full border border-slate-200 bg-slate-50 px-4 py-2 text-sm text-slate-800 placeholder:text-slate-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500"
+        />
+        <span className="text-xs text-slate-500" aria-live="polite">
+          {resultCount} {resultCount === 1 ? "venue" : "venues"}
+        </span>
+        {hasActiveFilters(filters) && (
+          <button
+            type="button"
+            onClick={() => onChange(emptyFilters)}
+            className="text-xs font-medium text-emerald-600 transition hover:text-emerald-500"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+      {notice && (
+        <p role="status" className="text-xs text-amber-700">
+          {notice}
+        </p>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {areas.map((area) => {
+          const active = filters.areas.includes(area);
+          return (
+            <button
+              key={area}
+              type="button"
+              onClick={() => toggleArea(area)}
+              aria-pressed={active}
+              className={chipClass(active)}
+            >
+              {area}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium text-slate-500">Held in</span>
+        {continents.map((continent) => {
+          const active = filters.continents.includes(continent);
+          return (
+            <button
+              key={continent}
+              type="button"
+              onClick={() => toggleContinent(continent)}
+              aria-pressed={active}
+              className={chipClass(active)}
+            >
+              {continent}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {statusOptions.map((option) => {
+          const active = filters.status === option.id;
+          return (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => update({ status: option.id })}
+              aria-pressed={active}
+              className={chipClass(active)}
+            >
+              {option.label}
+            </button>
+          );
+        })}
+        <span aria-hidden="true" className="mx-1 h-4 w-px bg-slate-200" />
+        {scheduleOptions.map((option) => {
+          const active = filters.schedule === option.id;
+          return (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => update({ schedule: option.id })}
+              aria-pressed={active}
+              className={chipClass(active)}
+            >
+              {option.label}
+            </button>
+          );
+        })}
+        <span aria-hidden="true" className="mx-1 h-4 w-px bg-slate-200" />
+        {venueTypeOptions.map((option) => {
+          const active = filters.venueType === option.id;
+          return (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => update({ venueType: option.id })}
+              aria-pressed={active}
+              className={chipClass(active)}
+            >
+              {option.label}
+            </button>
+          );
+        })}
+        <span aria-hidden="true" className="mx-1 h-4 w-px bg-slate-200" />
+        {windowOptions.map((days) => {
+          const active = filters.withinDays === days;
+          return (
+            <button
+              key={days}
+              type="button"
+              onClick={() => update({ withinDays: active ? null : days })}
+              aria-pressed={active}
+              className={chipClass(active)}
+            >
+              Closing within {days} days
+            </button>
+          );
+        })}
+        <span aria-hidden="true" className="mx-1 h-4 w-px bg-slate-200" />
+        <button
+          type="button"
+          onClick={() => update({ workshops: !filters.workshops })}
+          aria-pressed={filters.workshops}
+          className={chipClass(filters.workshops)}
+        >
+          Include workshops
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,180 @@
+import Link from "next/link";
+
+import type { Conference } from "@/data/conferences";
+import { getDeadlineOccurrences, getOccurrenceKey } from "@/lib/deadlines";
+import { toReminderVenue } from "@/lib/reminders";
+import { Countdown } from "@/components/countdown";
+import { LocalTime } from "@/components/local-time";
+import { IfStarred, StarButton } from "@/components/starred";
+import { ReminderButton } from "@/components/venue-actions";
+
+export function JournalList({
+  journals,
+  hosts,
+  starredOnly = false,
+  now,
+  renderedAt,
+}: {
+  journals: Conference[];
+  /** Conferences with a journal-first track, by journal id */
+  hosts: Map<string, Conference[]>;
+  /** Only show the journals starred in this browser */
+  starredOnly?: boolean;
+  now: Date;
+  /** Server render time, so countdowns read correctly before hydration */
+  renderedAt: string;
+}) {
+  return (
+    <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <table className="min-w-full divide-y divide-slate-200">
+        <thead className="bg-slate-50">
+          <tr className="text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
+            <th scope="col" className="px-6 py-3">
+              Journal
+            </th>
+            <th scope="col" className="px-6 py-3">
+              Submissions
+            </th>
+            <th scope="col" className="px-6 py-3">
+              Turnaround
+            </th>
+            <th scope="col" className="px-6 py-3">
+              Present at
+            </th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 text-sm text-slate-700">
+          {journals.map((journal) => {
+            const specialIssues = getDeadlineOccurrences(journal, now);
+            const presentAt = hosts.get(journal.id) ?? [];
+
+            const row = (
+              <tr key={journal.id} className="hover:bg-slate-50/70">
+                <td className="max-w-[18rem] px-6 py-4">
+                  <div className="flex flex-col">
+                    <span className="flex items-center gap-2 font-semibold text-slate-900">
+                      <StarButton id={journal.id} acronym={journal.acronym} />
+                      <Link
+                        href={`/conferences/${journal.id}`}
+                        className="transition hover:text-emerald-600"
+                      >
+                        {journal.acronym}
+                      </Link>
+                    </span>
+                    <span className="text-xs text-slate-500">{journal.name}</span>
+                    <span className="text-xs text-slate-500">{journal.area}</span>
+                    <div className="mt-2 flex flex-wrap gap-3 text-xs">
+                      <Link
+                        href={journal.website}
+                        className="font-medium text-emerald-600 hover:text-emerald-500"
+                        target="_blank"
+                        rel="noreferrer"
+                      >
+                        Website
+                      </Link>
+                      {specialIssues.length > 0 && (
+                        <ReminderButton
+                          venue={toReminderVenue(journal, now)}
+                          name={journal.name}
+                          label={`Reminders for ${journal.acronym} special issues`}
+                        />
+                      )}
+                    </div>
+                  </div>
+                </td>
+                <td className="px-6 py-4">
+                  <div className="flex flex-col gap-2">
+                    {journal.isRolling && (
+                      <span className="font-semibold text-emerald-600">
+                        Always open
+                      </span>
+                    )}
+                    {specialIssues.map((occurrence) => (
+                      <div key={getOccurrenceKey(occurrence)} className="flex flex-col">
+                        {occurrence.specialIssue && (
+                          <Link
+                            href={occurrence.specialIssue.website}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-xs font-semibold uppercase tracking-wide text-emerald-700 hover:text-emerald-600"
+                          >
+                            Special issue · {occurrence.specialIssue.title}
+                          </Link>
+                        )}
+                        <span className="text-xs text-slate-500">
+                          <LocalTime at={occurrence.date.toISOString()} /> ·{" "}
+                          <Countdown
+                            target={occurrence.date.toISOString()}
+                            renderedAt={renderedAt}
+                            className="font-semibold text-emerald-600"
+                          />
+                        </span>
+                      </div>
+                    ))}
+                    {!journal.isRolling && specialIssues.length === 0 && (
+                      <span className="text-slate-500">No open calls</span>
+                    )}
+                    {journal.note && (
+                      <span className="text-xs text-slate-500">{journal.note}</span>
+                    )}
+                  </div>
+                </td>
+                <td className="px-6 py-4">
+                  {journal.turnaround ? (
+                    <div className="flex flex-col">
+                      <span>
+                        ~{journal.turnaround.firstDecisionDays} days to first
+                        decision
+                      </span>
+                      {journal.turnaround.acceptanceDays && (
+                        <span className="text-xs text-slate-500">
+                          ~{journal.turnaround.acceptanceDays} days to
+                          acceptance
+                        </span>
+                      )}
+                      <Link
+                        href={journal.turnaround.source}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-xs font-medium text-emerald-600 hover:text-emerald-500"
+                      >
+                        Source
+                      </Link>
+                    </div>
+                  ) : (
+                    "—"
+                  )}
+                </td>
+                <td className="px-6 py-4">
+                  {presentAt.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {presentAt.map((conf) => (
+                        <Link
+                          key={conf.id}
+                          href={`/conferences/${conf.id}`}
+                          className="rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-600 transition hover:text-emerald-600"
+                        >
+                          {conf.acronym}
+                        </Link>
+                      ))}
+                    </div>
+                  ) : (
+                    "—"
+                  )}
+                </td>
+              </tr>
+            );
+
+            return starredOnly ? (
+              <IfStarred key={journal.id} ids={[journal.id]}>
+                {row}
+              </IfStarred>
+            ) : (
+              row
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import { useMemo, useSyncExternalStore } from "react";
+
+import { formatDeadlineLabel } from "@/lib/deadlines";
+import {
+  readDisplayZone,
+  SERVER_DISPLAY_ZONE,
+  storeDisplayZone,
+  subscribeToDisplayZone,
+} from "@/lib/display-zone";
+
+export function useDisplayZone(): string {
+  return useSyncExternalStore(
+    subscribeToDisplayZone,
+    readDisplayZone,
+    () => SERVER_DISPLAY_ZONE,
+  );
+}
+
+/**
+ * An ISO timestamp in the zone chosen under "Show times in". Renders nothing
+ * when the result reads the same as `unless`, e.g. a deadline already shown
+ * in its own zone.
+ */
+export function LocalTime({
+  at,
+  unless,
+  className,
+}: {
+  at: string;
+  unless?: string;
+  className?: string;
+}) {
+  const label = formatDeadlineLabel(new Date(at), useDisplayZone());
+  if (label === unless) return null;
+  return <span className={className}>{label}</span>;
+}
+
+function subscribeToNothing(): () => void {
+  return () => {};
+}
+
+const noZones: string[] = [];
+let supportedZones: string[] | undefined;
+
+function readSupportedZones(): string[] {
+  supportedZones ??= Intl.supportedValuesOf("timeZone");
+  return supportedZones;
+}
+
+export function TimeZoneSelect() {
+  const displayZone = useDisplayZone();
+  // Node and each browser ship different zone lists, so the full list only
+  // renders after hydration; the server offers the fixed entries alone.
+  const supported = useSyncExternalStore(
+    subscribeToNothing,
+    readSupportedZones,
+    () => noZones,
+  );
+  const options = useMemo(
+    () => [...new Set(["AoE", "UTC", displayZone, ...supported])],
+    [displayZone, supported],
+  );
+
+  return (
+    <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+      Show times in
+      <select
+        value={displayZone}
+        onChange={(event) => storeDisplayZone(event.target.value)}
+        className="max-w-[12rem] rounded-full border border-slate-200 bg-white px-3 py-1.5 text-xs text-slate-700 shadow-sm focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500"
+      >
+        {options.map((zone) => (
+          <option key={zone} value={zone}>
+            {zone === "AoE" ? "AoE (UTC-12)" : zone.replace(/_/g, " ")}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
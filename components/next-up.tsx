@@ -0,0 +1,97 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+import { type MilestoneKind, milestoneLabels } from "@/data/conferences";
+import {
+  readNextUpStarredOnly,
+  storeNextUpStarredOnly,
+  subscribeToWatchlist,
+} from "@/lib/watchlist";
+import { Countdown } from "@/components/countdown";
+import { LocalTime } from "@/components/local-time";
+import { useStarred } from "@/components/starred";
+
+const NEXT_UP_LIMIT = 4;
+
+export interface NextUpDeadline {
+  id: string;
+  acronym: string;
+  parentAcronym?: string;
+  kind: MilestoneKind;
+  /** ISO timestamp */
+  at: string;
+}
+
+/**
+ * The soonest deadlines, optionally only for starred venues. `deadlines`
+ * holds every listed venue's next one, soonest first, so the starred-only
+ * switch needs no round trip.
+ */
+export function NextUp({
+  deadlines,
+  renderedAt,
+}: {
+  deadlines: NextUpDeadline[];
+  renderedAt: string;
+}) {
+  const starred = useStarred();
+  const starredOnly = useSyncExternalStore(
+    subscribeToWatchlist,
+    readNextUpStarredOnly,
+    () => false,
+  );
+  const shown = deadlines
+    .filter((deadline) => !starredOnly || starred.includes(deadline.id))
+    .slice(0, NEXT_UP_LIMIT);
+
+  return (
+    <div className="flex w-full flex-col gap-3 rounded-2xl border border-slate-200 bg-slate-50 p-4 md:max-w-xs">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Next up
+        </span>
+        <button
+          type="button"
+          onClick={() => storeNextUpStarredOnly(!starredOnly)}
+          aria-pressed={starredOnly}
+          className={`text-xs font-medium transition ${
+            starredOnly
+              ? "text-amber-500 hover:text-amber-400"
+              : "text-slate-500 hover:text-emerald-600"
+          }`}
+        >
+          {starredOnly ? "★ Starred only" : "☆ Starred only"}
+        </button>
+      </div>
+      <ul className="space-y-3">
+        {shown.map(({ id, acronym, parentAcronym, kind, at }) => (
+          <li key={id} className="flex items-center justify-between">
+            <div className="flex flex-col">
+              <span className="text-sm font-medium text-slate-900">
+                {acronym}
+                {parentAcronym && (
+                  <span className="font-normal text-slate-500">
+                    {" "}
+                    · {parentAcronym}
+                  </span>
+                )}
+              </span>
+              <span className="text-xs text-slate-500">
+                {milestoneLabels[kind]} · <LocalTime at={at} />
+              </span>
+            </div>
+            <Countdown
+              target={at}
+              renderedAt={renderedAt}
+              className="text-xs font-semibold text-emerald-600"
+            />
+          </li>
+        ))}
+        {shown.length === 0 && (
+          <li className="text-xs text-slate-500">No upcoming deadlines match.</li>
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect } from "react";
+
+/** The render a refresh was last asked from, kept across full reloads. */
+const REFRESHED_FROM_STORAGE_KEY = "conferenceddl:pivot-refreshed-from";
+
+/**
+ * Asks the server for a fresh render once `at` passes, i.e. when a deadline
+ * closes or enters the date window and the table's order or filtering
+ * changes; countdown cells tick on their own in between. The delay counts
+ * from `renderedAt` on the server's clock, so a browser clock running ahead
+ * cannot refresh before the server sees the change. Paused while the tab is
+ * hidden; coming back catches up at once if the pivot passed meanwhile.
+ *
+ * Offline there is nothing to refresh from, and a failed refresh reloads the
+ * saved page with the same `renderedAt`. Either way it waits for the browser
+ * to come back online instead of asking again.
+ */
+export function PivotRefresh({
+  at,
+  renderedAt,
+}: {
+  at: string;
+  renderedAt: string;
+}) {
+  const router = useRouter();
+
+  useEffect(() => {
+    const due = performance.now() + Date.parse(at) - Date.parse(renderedAt);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const refresh = () => {
+      if (!navigator.onLine) return;
+      const refreshedFrom = window.sessionStorage.getItem(
+        REFRESHED_FROM_STORAGE_KEY,
+      );
+      // Still showing the render a refresh was asked from: that refresh failed.
+      if (refreshedFrom === renderedAt) return;
+      window.sessionStorage.setItem(REFRESHED_FROM_STORAGE_KEY, renderedAt);
+      router.refresh();
+    };
+    const schedule = () => {
+      clearTimeout(timer);
+      if (document.hidden) return;
+      timer = setTimeout(refresh, Math.max(due - performance.now(), 0));
+    };
+    const retry = () => {
+      window.sessionStorage.removeItem(REFRESHED_FROM_STORAGE_KEY);
+      schedule();
+    };
+
+    schedule();
+    document.addEventListener("visibilitychange", schedule);
+    window.addEventListener("online", retry);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener("visibilitychange", schedule);
+      window.removeEventListener("online", retry);
+    };
+  }, [at, renderedAt, router]);
+
+  return null;
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState, useSyncExternalStore } from "react";
+
+import {
+  readNotificationPermission,
+  scheduleReminderNotifications,
+  showReminderNotifications,
+  subscribeToNotificationPermission,
+} from "@/lib/notifications";
+import {
+  describeReminder,
+  getDueReminders,
+  getScheduledReminders,
+  readSentReminders,
+  type ReminderVenue,
+  type ScheduledReminder,
+  storeSentReminders,
+} from "@/lib/reminders";
+import { registerServiceWorker } from "@/lib/service-worker";
+import { useReminders } from "@/components/venue-actions";
+
+// Longer delays overflow setTimeout and fire at once; the reminder timer
+// re-arms itself instead.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Delivers reminders set in this browser: as alerts on the page and, where
+ * allowed, as system notifications.
+ */
+export function ReminderAlerts({ venues }: { venues: ReminderVenue[] }) {
+  const reminders = useReminders();
+  const [alerts, setAlerts] = useState<ScheduledReminder[]>([]);
+  const notificationPermission = useSyncExternalStore(
+    subscribeToNotificationPermission,
+    readNotificationPermission,
+    () => "default" as const,
+  );
+
+  // Reminders keep their own one-shot timer, which is not paused in hidden
+  // tabs: browsers throttle background timers but still run them, so a
+  // reminder arrives on time or shortly after.
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const deliver = () => {
+      const current = new Date();
+      const { due, skipped } = getDueReminders(
+        getScheduledReminders(venues, reminders, current),
+        readSentReminders(),
+        current,
+      );
+      if (due.length || skipped.length) {
+        storeSentReminders(
+          [...due, ...skipped].map((reminder) => reminder.key),
+          current,
+        );
+      }
+      if (due.length) {
+        setAlerts((previous) => [...previous, ...due]);
+        void showReminderNotifications(due);
+      }
+      schedule();
+    };
+
+    // Reminders already due but not yet sent, e.g. after the laptop slept,
+    // go out at once.
+    const schedule = () => {
+      const current = new Date();
+      const sent = readSentReminders();
+      const next = getScheduledReminders(venues, reminders, current).find(
+        (reminder) => !sent.includes(reminder.key),
+      );
+      if (!next) return;
+      timer = setTimeout(
+        deliver,
+        Math.min(
+          Math.max(next.at.getTime() - current.getTime(), 0),
+          MAX_TIMER_DELAY_MS,
+        ),
+      );
+    };
+
+    schedule();
+    return () => clearTimeout(timer);
+  }, [venues, reminders]);
+
+  useEffect(() => {
+    void registerServiceWorker();
+  }, []);
+
+  useEffect(() => {
+    if (notificationPermission !== "granted") return;
+    const current = new Date();
+    void scheduleReminderNotifications(
+      getScheduledReminders(venues, reminders, current).filter(
+        (reminder) => reminder.at > current,
+      ),
+    );
+  }, [venues, reminders, notificationPermission]);
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-8 left-8 z-40 flex w-full max-w-sm flex-col gap-3"
+    >
+      {alerts.map((alert) => {
+        const { title, body } = describeReminder(alert);
+        return (
+          <div
+            key={alert.key}
+            className="flex items-start justify-between gap-3 rounded-2xl border border-amber-200 bg-amber-50 p-4 text-sm shadow-lg"
+          >
+            <div className="flex flex-col">
+              <Link
+                href={`/conferences/${alert.venue.id}`}
+                className="font-semibold text-amber-900 transition hover:text-amber-700"
+              >
+                {title}
+              </Link>
+              <span className="text-xs text-amber-800">{body}</span>
+            </div>
+            <button
+              type="button"
+              onClick={() =>
+                setAlerts((previous) =>
+                  previous.filter((entry) => entry.key !== alert.key),
+                )
+              }
+              aria-label="Dismiss reminder"
+              className="rounded-full px-1 text-lg leading-none text-amber-500 transition hover:text-amber-700"
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+import { milestoneLabels } from "@/data/conferences";
+import { formatDeadlineLabel } from "@/lib/deadlines";
+import {
+  readNotificationPermission,
+  requestNotificationPermission,
+  subscribeToNotificationPermission,
+} from "@/lib/notifications";
+import {
+  type ReminderOffset,
+  reminderOffsets,
+  type ReminderVenue,
+  toggleReminder,
+} from "@/lib/reminders";
+import { useDisplayZone } from "@/components/local-time";
+
+const permissionMessages: Record<string, string> = {
+  unsupported:
+    "This browser cannot show notifications, so reminders only appear on this page while it is open.",
+  denied:
+    "Notifications are blocked for this site. Reminders still appear on this page; allow notifications in the browser settings to get them as system notifications too.",
+  default:
+    "Reminders appear on this page while it is open, even in a background tab. Enable notifications to get them as system notifications too.",
+  granted: "Notifications are on for this browser.",
+};
+
+export function ReminderSettings({
+  venue,
+  offsets,
+  now,
+}: {
+  venue: ReminderVenue;
+  offsets: ReminderOffset[];
+  now: Date;
+}) {
+  const displayZone = useDisplayZone();
+  const permission = useSyncExternalStore(
+    subscribeToNotificationPermission,
+    readNotificationPermission,
+    () => "default" as const,
+  );
+  const deadlines = venue.deadlines.filter(
+    (deadline) => deadline.at > now.getTime(),
+  );
+
+  return (
+    <div className="space-y-5 text-sm text-slate-700">
+      <fieldset className="space-y-2">
+        <legend className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Remind me
+        </legend>
+        {(Object.keys(reminderOffsets) as ReminderOffset[]).map((offset) => (
+          <label key={offset} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={offsets.includes(offset)}
+              onChange={() => toggleReminder(venue, offset, new Date())}
+              className="h-4 w-4 rounded border-slate-300 text-emerald-600 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500"
+            />
+            {reminderOffsets[offset].label} each deadline
+          </label>
+        ))}
+      </fieldset>
+
+      {deadlines.length > 0 ? (
+        <ul className="space-y-1 text-xs text-slate-500">
+          {deadlines.map((deadline) => (
+            <li key={deadline.key}>
+              {deadline.specialIssue ?? milestoneLabels[deadline.kind]}:{" "}
+              {formatDeadlineLabel(new Date(deadline.at), displayZone)}
+              {deadline.estimated ? " · est." : ""}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-slate-500">
+          No upcoming deadlines yet; reminders start once dates are known.
+        </p>
+      )}
+
+      <div className="rounded-xl bg-slate-50 p-3 text-xs text-slate-600">
+        <p>{permissionMessages[permission]}</p>
+        {permission === "default" && (
+          <button
+            type="button"
+            onClick={() => void requestNotificationPermission()}
+            className="mt-2 rounded-full border border-slate-200 bg-white px-3 py-1.5 font-medium text-slate-600 transition hover:border-emerald-200 hover:text-emerald-600 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500"
+          >
+            Enable notifications
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-slate-400">
+        Reminder settings are kept in this browser only.
+      </p>
+    </div>
+  );
+}
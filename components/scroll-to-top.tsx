@@ -0,0 +1,34 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+function subscribeToScroll(listener: () => void): () => void {
+  window.addEventListener("scroll", listener, { passive: true });
+  return () => window.removeEventListener("scroll", listener);
+}
+
+function readScrolledDown(): boolean {
+  return window.scrollY > 400;
+}
+
+export function ScrollToTop() {
+  const scrolledDown = useSyncExternalStore(
+    subscribeToScroll,
+    readScrolledDown,
+    () => false,
+  );
+  if (!scrolledDown) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={() => window.scrollTo({ top: 0, behavior: "smooth" })}
+      className="fixed bottom-8 right-8 inline-flex h-14 w-14 items-center justify-center rounded-full border border-slate-200 bg-white text-2xl text-slate-600 shadow-lg transition hover:bg-slate-50 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-400"
+      aria-label="Go to top"
+    >
+      <span className="leading-none" aria-hidden="true">
+        ↑
+      </span>
+    </button>
+  );
+}
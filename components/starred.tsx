@@ -0,0 +1,62 @@
+"use client";
+
+import { type ReactNode, useMemo, useSyncExternalStore } from "react";
+
+import {
+  parseStarred,
+  readStarredSnapshot,
+  subscribeToWatchlist,
+  toggleStarred,
+} from "@/lib/watchlist";
+
+/** Venues starred in this browser; empty during the server render. */
+export function useStarred(): string[] {
+  const snapshot = useSyncExternalStore(
+    subscribeToWatchlist,
+    readStarredSnapshot,
+    () => "[]",
+  );
+  return useMemo(() => parseStarred(snapshot), [snapshot]);
+}
+
+export function StarButton({ id, acronym }: { id: string; acronym: string }) {
+  const isStarred = useStarred().includes(id);
+  return (
+    <button
+      type="button"
+      onClick={() => toggleStarred(id)}
+      aria-pressed={isStarred}
+      aria-label={`${isStarred ? "Unstar" : "Star"} ${acronym}`}
+      className={`text-base leading-none transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500 ${
+        isStarred
+          ? "text-amber-400 hover:text-amber-500"
+          : "text-slate-300 hover:text-amber-400"
+      }`}
+    >
+      {isStarred ? "★" : "☆"}
+    </button>
+  );
+}
+
+/**
+ * Shows `children` when any of `ids` is starred and none of `unless` is, and
+ * `fallback` otherwise. The server renders every row of "My venues"; this
+ * picks the ones starred in this browser.
+ */
+export function IfStarred({
+  ids,
+  unless = [],
+  children,
+  fallback = null,
+}: {
+  ids: string[];
+  unless?: string[];
+  children: ReactNode;
+  fallback?: ReactNode;
+}) {
+  const starred = useStarred();
+  const shown =
+    ids.some((id) => starred.includes(id)) &&
+    !unless.some((id) => starred.includes(id));
+  return shown ? children : fallback;
+}
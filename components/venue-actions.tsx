@@ -0,0 +1,98 @@
+"use client";
+
+import { type ReactNode, useMemo, useState, useSyncExternalStore } from "react";
+
+import {
+  parseReminders,
+  readRemindersSnapshot,
+  type ReminderSettings as ReminderSettingsByVenue,
+  type ReminderVenue,
+  subscribeToReminders,
+} from "@/lib/reminders";
+import { Dialog } from "@/components/dialog";
+import { ReminderSettings } from "@/components/reminder-settings";
+
+/** Reminders chosen in this browser; none during the server render. */
+export function useReminders(): ReminderSettingsByVenue {
+  const snapshot = useSyncExternalStore(
+    subscribeToReminders,
+    readRemindersSnapshot,
+    () => "{}",
+  );
+  return useMemo(() => parseReminders(snapshot), [snapshot]);
+}
+
+/** Opens the venue's past editions, rendered on the server as `children`. */
+export function HistoryButton({
+  acronym,
+  name,
+  children,
+}: {
+  acronym: string;
+  name: string;
+  children: ReactNode;
+}) {
+  const [open, setOpen] = useState(false);
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="font-medium text-emerald-600 hover:text-emerald-500"
+      >
+        History
+      </button>
+      {open && (
+        <Dialog
+          title={`${acronym} history`}
+          subtitle={name}
+          closeLabel="Close history"
+          width="lg"
+          onClose={() => setOpen(false)}
+        >
+          {children}
+        </Dialog>
+      )}
+    </>
+  );
+}
+
+export function ReminderButton({
+  venue,
+  name,
+  label = `Reminders for ${venue.acronym}`,
+}: {
+  venue: ReminderVenue;
+  name: string;
+  label?: string;
+}) {
+  const offsets = useReminders()[venue.id] ?? [];
+  // Deadlines in the dialog count from when it opened.
+  const [openedAt, setOpenedAt] = useState<Date | null>(null);
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpenedAt(new Date())}
+        aria-label={label}
+        className={`font-medium transition ${
+          offsets.length
+            ? "text-amber-500 hover:text-amber-400"
+            : "text-emerald-600 hover:text-emerald-500"
+        }`}
+      >
+        {offsets.length ? "Reminders on" : "Remind me"}
+      </button>
+      {openedAt && (
+        <Dialog
+          title={`${venue.acronym} reminders`}
+          subtitle={name}
+          closeLabel="Close reminders"
+          onClose={() => setOpenedAt(null)}
+        >
+          <ReminderSettings venue={venue} offsets={offsets} now={openedAt} />
+        </Dialog>
+      )}
+    </>
+  );
+}
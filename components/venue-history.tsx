@@ -0,0 +1,108 @@
+import Link from "next/link";
+
+import type { Conference } from "@/data/conferences";
+import {
+  formatAcceptanceRate,
+  formatDateRange,
+  formatShift,
+  getDeadlineTrend,
+  getEditionHistory,
+} from "@/lib/history";
+
+export function VenueHistory({
+  conf,
+  now,
+}: {
+  conf: Conference;
+  now: Date;
+}) {
+  const history = getEditionHistory(conf, now);
+  const trend = getDeadlineTrend(history);
+
+  if (!history.length) {
+    return (
+      <p className="text-sm text-slate-500">
+        No past editions recorded for {conf.acronym} yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {trend && (
+        <p className="rounded-xl bg-slate-50 px-4 py-3 text-sm text-slate-600">
+          The deadline moved{" "}
+          <span className="font-semibold text-slate-900">
+            {formatShift(trend.averageShiftDays)}
+          </span>{" "}
+          per year on average, and never more than{" "}
+          <span className="font-semibold text-slate-900">
+            {trend.maxShiftDays} {trend.maxShiftDays === 1 ? "day" : "days"}
+          </span>{" "}
+          between editions.
+        </p>
+      )}
+      <ol className="relative space-y-5 border-l border-slate-200 pl-6">
+        {history.map(({ edition, label, shiftDays, upcoming }) => (
+          <li key={edition.year} className="relative">
+            <span
+              aria-hidden="true"
+              className={`absolute -left-[1.95rem] top-1 h-3 w-3 rounded-full border-2 border-white ${
+                upcoming ? "bg-emerald-500" : "bg-slate-400"
+              }`}
+            />
+            <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+              <span className="font-semibold text-slate-900">
+                {conf.acronym} {edition.year}
+              </span>
+              {upcoming && (
+                <span className="rounded-full bg-emerald-50 px-2 py-0.5 text-xs font-medium text-emerald-700">
+                  Upcoming
+                </span>
+              )}
+              {shiftDays !== null && (
+                <span className="text-xs text-slate-500">
+                  {formatShift(shiftDays)} than the previous edition
+                </span>
+              )}
+            </div>
+            <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs text-slate-600">
+              {label && (
+                <>
+                  <dt className="text-slate-400">Deadline</dt>
+                  <dd>{label}</dd>
+                </>
+              )}
+              {edition.dates && (
+                <>
+                  <dt className="text-slate-400">Conference</dt>
+                  <dd>{formatDateRange(edition.dates)}</dd>
+                </>
+              )}
+              {edition.location && (
+                <>
+                  <dt className="text-slate-400">Location</dt>
+                  <dd>{edition.location}</dd>
+                </>
+              )}
+              {edition.acceptanceRate !== undefined && (
+                <>
+                  <dt className="text-slate-400">Acceptance</dt>
+                  <dd>{formatAcceptanceRate(edition.acceptanceRate)}</dd>
+                </>
+              )}
+            </dl>
+            <Link
+              href={edition.source}
+              target="_blank"
+              rel="noreferrer"
+              className="mt-1 inline-block text-xs font-medium text-emerald-600 hover:text-emerald-500"
+            >
+              Source
+            </Link>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
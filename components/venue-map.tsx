@@ -0,0 +1,207 @@
+"use client";
+
+import { geoEqualEarth, geoPath } from "d3-geo";
+import Link from "next/link";
+import { type KeyboardEvent, useMemo, useState } from "react";
+import { feature, mesh } from "topojson-client";
+import world from "world-atlas/countries-110m.json";
+
+import { milestoneLabels } from "@/data/conferences";
+import { formatDeadlineLabel } from "@/lib/deadlines";
+import type { CityCluster } from "@/lib/map";
+import { Countdown } from "@/components/countdown";
+import { useDisplayZone } from "@/components/local-time";
+
+const WIDTH = 960;
+const HEIGHT = 480;
+
+// Natural Earth 1:110m outlines bundled with the app, so the map needs no
+// tile server and works offline.
+const projection = geoEqualEarth().fitSize([WIDTH, HEIGHT], { type: "Sphere" });
+const path = geoPath(projection);
+const spherePath = path({ type: "Sphere" }) ?? "";
+const landPath = path(feature(world, world.objects.land)) ?? "";
+const borderPath =
+  path(
+    mesh(world, world.objects.countries, (a, b) => a !== b),
+  ) ?? "";
+
+// Cities closer than this on the map share a marker, e.g. Los Angeles and
+// San Diego at world scale.
+const MERGE_DISTANCE = 14;
+
+interface MapMarker {
+  key: string;
+  x: number;
+  y: number;
+  cities: CityCluster[];
+}
+
+function toMarkers(clusters: CityCluster[]): MapMarker[] {
+  const markers: MapMarker[] = [];
+  for (const cluster of clusters) {
+    const point = projection([
+      cluster.coordinates.longitude,
+      cluster.coordinates.latitude,
+    ]);
+    if (!point) continue;
+    const [x, y] = point;
+    const near = markers.find(
+      (marker) => Math.hypot(marker.x - x, marker.y - y) < MERGE_DISTANCE,
+    );
+    if (near) {
+      near.cities.push(cluster);
+    } else {
+      markers.push({ key: cluster.key, x, y, cities: [cluster] });
+    }
+  }
+  return markers;
+}
+
+function markerRadius(count: number): number {
+  return 6 + Math.min(count - 1, 4) * 2;
+}
+
+export function VenueMap({
+  clusters,
+  unplacedCount,
+  renderedAt,
+}: {
+  clusters: CityCluster[];
+  unplacedCount: number;
+  /** Server render time, so countdowns read correctly before hydration */
+  renderedAt: string;
+}) {
+  const displayZone = useDisplayZone();
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const markers = useMemo(() => toMarkers(clusters), [clusters]);
+  const selected =
+    markers.find((marker) => marker.key === selectedKey) ?? markers[0];
+
+  const handleKeyDown = (event: KeyboardEvent, key: string) => {
+    if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      setSelectedKey(key);
+    }
+  };
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_18rem]">
+      <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          role="img"
+          aria-label="World map of upcoming conference locations"
+          className="h-auto w-full"
+        >
+          <path d={spherePath} className="fill-sky-50" />
+          <path d={landPath} className="fill-slate-200" />
+          <path
+            d={borderPath}
+            className="fill-none stroke-white"
+            strokeWidth={0.5}
+          />
+          {markers.map((marker) => {
+            const active = marker.key === selected?.key;
+            const acronyms = marker.cities.flatMap((city) =>
+              city.venues.map(({ conf }) => conf.acronym),
+            );
+            const places = marker.cities.map((city) => city.label).join(" · ");
+            return (
+              <g
+                key={marker.key}
+                transform={`translate(${marker.x} ${marker.y})`}
+                role="button"
+                tabIndex={0}
+                aria-pressed={active}
+                aria-label={`${places}: ${acronyms.join(", ")}`}
+                onClick={() => setSelectedKey(marker.key)}
+                onKeyDown={(event) => handleKeyDown(event, marker.key)}
+                className="cursor-pointer focus:outline-none [&:focus-visible>circle]:stroke-slate-900"
+              >
+                <title>
+                  {acronyms.join(", ")} · {places}
+                </title>
+                <circle
+                  r={markerRadius(acronyms.length)}
+                  strokeWidth={2}
+                  className={`stroke-white transition ${active ? "fill-amber-500" : "fill-emerald-500 hover:fill-emerald-600"}`}
+                />
+                {acronyms.length > 1 && (
+                  <text
+                    textAnchor="middle"
+                    dy="0.35em"
+                    className="pointer-events-none fill-white text-[10px] font-semibold"
+                  >
+                    {acronyms.length}
+                  </text>
+                )}
+                <text
+                  x={markerRadius(acronyms.length) + 3}
+                  dy="0.35em"
+                  className="pointer-events-none fill-slate-700 stroke-white text-[11px] font-semibold [paint-order:stroke]"
+                  strokeWidth={3}
+                >
+                  {acronyms[0]}
+                  {acronyms.length > 1 ? ` +${acronyms.length - 1}` : ""}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+        {unplacedCount > 0 && (
+          <p className="border-t border-slate-100 px-4 py-2 text-xs text-slate-500">
+            {unplacedCount} {unplacedCount === 1 ? "venue has" : "venues have"} no
+            known location yet and {unplacedCount === 1 ? "is" : "are"} not shown.
+          </p>
+        )}
+      </div>
+
+      <aside className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+        {selected ? (
+          <div className="space-y-4">
+            {selected.cities.map((city) => (
+              <div key={city.key}>
+                <h3 className="text-sm font-semibold text-slate-900">
+                  {city.label}
+                </h3>
+                <ul className="mt-2 space-y-3">
+                  {city.venues.map(({ conf, next }) => (
+                    <li key={conf.id} className="flex flex-col">
+                      <Link
+                        href={`/conferences/${conf.id}`}
+                        className="text-sm font-semibold text-slate-900 transition hover:text-emerald-600"
+                      >
+                        {conf.acronym}
+                      </Link>
+                      {next ? (
+                        <>
+                          <span className="text-xs text-slate-500">
+                            {milestoneLabels[next.kind]} ·{" "}
+                            {formatDeadlineLabel(next.date, displayZone)}
+                            {next.estimated ? " · est." : ""}
+                          </span>
+                          <Countdown
+                            target={next.date.toISOString()}
+                            renderedAt={renderedAt}
+                            className="text-xs font-semibold text-emerald-600"
+                          />
+                        </>
+                      ) : (
+                        <span className="text-xs text-slate-500">
+                          Next deadline TBA
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">No venues with a known location.</p>
+        )}
+      </aside>
+    </div>
+  );
+}
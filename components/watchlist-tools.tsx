@@ -0,0 +1,127 @@
+"use client";
+
+import { type FormEvent, useState } from "react";
+
+import {
+  decodeShareCode,
+  encodeShareCode,
+  parseWatchlistFile,
+  serializeWatchlistFile,
+  storeStarred,
+} from "@/lib/watchlist";
+import { useStarred } from "@/components/starred";
+
+const buttonClass =
+  "rounded-full border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-600 transition hover:border-emerald-200 hover:text-emerald-600 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500";
+
+export function WatchlistTools({ knownIds }: { knownIds: string[] }) {
+  const starred = useStarred();
+  const [code, setCode] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const shareCode = encodeShareCode(starred);
+
+  const importIds = (ids: string[]) => {
+    if (!ids.length) {
+      setStatus("No known venues found to import.");
+      return;
+    }
+    storeStarred([...starred, ...ids]);
+    setStatus(`Imported ${ids.length} ${ids.length === 1 ? "venue" : "venues"}.`);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareCode);
+      setStatus("Share code copied.");
+    } catch {
+      setStatus("Copy failed — select the code and copy it manually.");
+    }
+  };
+
+  const handleImportCode = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    importIds(decodeShareCode(code, knownIds));
+    setCode("");
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([serializeWatchlistFile(starred)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "my-venues.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      importIds(parseWatchlistFile(await file.text(), knownIds));
+    } catch (error) {
+      setStatus(
+        error instanceof Error ? error.message : "Could not read that file.",
+      );
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-slate-200 bg-white p-4 text-xs text-slate-600 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold uppercase tracking-wide text-slate-500">
+          Share code
+        </span>
+        <code className="rounded bg-slate-100 px-2 py-1 font-mono text-slate-700">
+          {shareCode || "—"}
+        </code>
+        <button
+          type="button"
+          onClick={handleCopy}
+          disabled={!starred.length}
+          className={buttonClass}
+        >
+          Copy
+        </button>
+        <button
+          type="button"
+          onClick={handleDownload}
+          disabled={!starred.length}
+          className={buttonClass}
+        >
+          Download JSON
+        </button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          Import JSON
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="sr-only"
+            onChange={(event) => {
+              void handleImportFile(event.target.files?.[0]);
+              event.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+      <form onSubmit={handleImportCode} className="flex flex-wrap items-center gap-2">
+        <input
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          placeholder="Paste a share code, e.g. cvpr.iclr.neurips"
+          aria-label="Share code to import"
+          className="min-w-[16rem] flex-1 rounded-full border border-slate-200 bg-slate-50 px-3 py-1.5 text-xs text-slate-800 placeholder:text-slate-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-500"
+        />
+        <button type="submit" disabled={!code.trim()} className={buttonClass}>
+          Import code
+        </button>
+        {status && (
+          <span role="status" className="text-slate-500">
+            {status}
+          </span>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { type ReactNode, useSyncExternalStore } from "react";
+
+// Which parents have their workshops open. Kept for the page's lifetime, so a
+// row stays expanded when the server re-sorts the table around it.
+const expandedIds = new Set<string>();
+const listeners = new Set<() => void>();
+
+function subscribeToExpanded(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function toggleExpanded(id: string) {
+  if (!expandedIds.delete(id)) expandedIds.add(id);
+  listeners.forEach((listener) => listener());
+}
+
+function useExpanded(id: string): boolean {
+  return useSyncExternalStore(
+    subscribeToExpanded,
+    () => expandedIds.has(id),
+    () => false,
+  );
+}
+
+export function WorkshopToggle({
+  parentId,
+  count,
+}: {
+  parentId: string;
+  count: number;
+}) {
+  const expanded = useExpanded(parentId);
+  return (
+    <button
+      type="button"
+      onClick={() => toggleExpanded(parentId)}
+      aria-expanded={expanded}
+      className="font-medium text-emerald-600 hover:text-emerald-500"
+    >
+      {expanded ? "▾" : "▸"} {count} {count === 1 ? "workshop" : "workshops"}
+    </button>
+  );
+}
+
+/** Workshop rows, shown under their parent's row while it is expanded. */
+export function WorkshopRows({
+  parentId,
+  children,
+}: {
+  parentId: string;
+  children: ReactNode;
+}) {
+  return useExpanded(parentId) ? children : null;
+}
@@ -7,26 +7,178 @@ export interface RecurringDeadline {
   hour: number;
   /** Minute of the hour */
   minute: number;
-  /** ISO 8601 timezone offset, e.g. +00:00, -12:00 */
-  offset: string;
-  /** Human readable label shown alongside the deadline */
-  label: string;
+  /** IANA time zone such as "America/Los_Angeles", or "AoE" for UTC-12 */
+  timeZone: string;
   /** Mark true when the schedule is based on historic cadence */
   estimated?: boolean;
 }
 
+export type MilestoneKind =
+  | "abstract"
+  | "paper"
+  | "rebuttal"
+  | "notification"
+  | "camera-ready"
+  | "special-issue";
+
+export interface Milestone extends RecurringDeadline {
+  /** Stage of the review cycle this deadline belongs to */
+  kind: MilestoneKind;
+}
+
+export const milestoneLabels: Record<MilestoneKind, string> = {
+  abstract: "Abstract",
+  paper: "Full paper",
+  rebuttal: "Rebuttal",
+  notification: "Notification",
+  "camera-ready": "Camera-ready",
+  "special-issue": "Special issue",
+};
+
+export interface DatedDeadline {
+  /** Stage of the review cycle this deadline belongs to */
+  kind: MilestoneKind;
+  /** Wall-clock time in `timeZone`, formatted as YYYY-MM-DDTHH:mm */
+  at: string;
+  /** IANA time zone such as "America/Los_Angeles", or "AoE" for UTC-12 */
+  timeZone: string;
+}
+
+export interface DateRange {
+  /** First day, formatted as YYYY-MM-DD */
+  start: string;
+  /** Last day (inclusive), formatted as YYYY-MM-DD */
+  end: string;
+}
+
+export interface Edition {
+  /** Year the edition takes place, e.g. 2026 for ICML 2026 */
+  year: number;
+  /** Confirmed deadlines announced for this edition */
+  deadlines: DatedDeadline[];
+  /** Official page the dates were taken from */
+  source: string;
+  /** Days the conference itself ran or will run */
+  dates?: DateRange;
+  location?: string;
+  /** Share of submissions accepted, between 0 and 1 */
+  acceptanceRate?: number;
+}
+
+export interface Coordinates {
+  /** Degrees north, from -90 to 90 */
+  latitude: number;
+  /** Degrees east, from -180 to 180 */
+  longitude: number;
+}
+
+export interface Place {
+  city: string;
+  /** ISO 3166-1 alpha-2 country code, e.g. "KR" */
+  country: string;
+  coordinates?: Coordinates;
+}
+
+/** CORE conference ranks, best first */
+export const coreRanks = ["A*", "A", "B", "C"] as const;
+export type CoreRank = (typeof coreRanks)[number];
+
+/** China Computer Federation ranks, best first */
+export const ccfRanks = ["A", "B", "C"] as const;
+export type CcfRank = (typeof ccfRanks)[number];
+
+export type ReviewModel = "double-blind" | "single-blind";
+
+export const reviewModelLabels: Record<ReviewModel, string> = {
+  "double-blind": "Double-blind",
+  "single-blind": "Single-blind",
+};
+
+export type ReviewPlatform = "openreview" | "cmt" | "easychair" | "other";
+
+export const reviewPlatformLabels: Record<ReviewPlatform, string> = {
+  openreview: "OpenReview",
+  cmt: "CMT",
+  easychair: "EasyChair",
+  other: "Other",
+};
+
+export type VenueType = "conference" | "journal";
+
+export const venueTypeLabels: Record<VenueType, string> = {
+  conference: "Conference",
+  journal: "Journal",
+};
+
+/** A journal's themed call with its own submission deadline. */
+export interface SpecialIssue {
+  /** Unique within the journal, e.g. `robot-learning-2027` */
+  id: string;
+  title: string;
+  /** Wall-clock time in `timeZone`, formatted as YYYY-MM-DDTHH:mm */
+  at: string;
+  /** IANA time zone such as "America/Los_Angeles", or "AoE" for UTC-12 */
+  timeZone: string;
+  /** Call for papers of the special issue */
+  website: string;
+}
+
+export interface ReviewTurnaround {
+  /** Typical days from submission to the first decision */
+  firstDecisionDays: number;
+  /** Typical days from submission to acceptance */
+  acceptanceDays?: number;
+  /** Page the figures were taken from */
+  source: string;
+}
+
+/** Lets papers accepted at a journal be presented at the conference. */
+export interface JournalFirstTrack {
+  /** Id of the journal venue */
+  journal: string;
+  /** Page describing the track */
+  source: string;
+}
+
 export interface Conference {
   id: string;
   name: string;
   acronym: string;
   area: string;
+  /** Defaults to `conference` */
+  type?: VenueType;
+  /** Id of the conference a workshop or co-located event belongs to */
+  parent?: string;
+  /** Free-form location shown in the table; prefer `place` for new data */
   location?: string;
   locationUrl?: string;
+  /** Days of the next (or latest) edition of the conference itself */
+  eventDates?: DateRange;
+  /** Where that edition takes place */
+  place?: Place;
   website: string;
   submissionLink?: string;
   note?: string;
   isRolling?: boolean;
-  deadline?: RecurringDeadline;
+  coreRank?: CoreRank;
+  ccfRank?: CcfRank;
+  /** Main-text page limit for a full paper, excluding references */
+  pageLimit?: number;
+  reviewModel?: ReviewModel;
+  /** Submission and review system */
+  reviewPlatform?: ReviewPlatform;
+  /** Whether authors can respond to reviews before decisions */
+  hasRebuttal?: boolean;
+  /** Recurring pattern used as a fallback for editions not yet announced */
+  milestones?: Milestone[];
+  /** Confirmed editions, past and upcoming; their dates win over the recurring pattern */
+  editions?: Edition[];
+  /** Journals only: how long reviews usually take */
+  turnaround?: ReviewTurnaround;
+  /** Journals only: themed calls with dated deadlines */
+  specialIssues?: SpecialIssue[];
+  /** Conferences only: journals whose papers can be presented there */
+  journalFirst?: JournalFirstTrack[];
 }
 
 export const areaOrder = [
@@ -40,485 +192,20 @@ export const areaOrder = [
   "Responsible AI & Society",
 ] as const;
 
-export const conferences: Conference[] = [
-  {
-    id: "neurips",
-    name: "Conference on Neural Information Processing Systems",
-    acronym: "NeurIPS",
-    area: "Machine Learning",
-    location: "TBD",
-    website: "https://neurips.cc/",
-    submissionLink: "https://neurips.cc/",
-    deadline: {
-      month: 5,
-      day: 15,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "May 15, 23:59 (AoE)",
-      estimated: true,
-    },
-    note: "Next cycle expected 2026; deadline based on 2025 cadence until CFP posts.",
-  },
-  {
-    id: "icml",
-    name: "International Conference on Machine Learning",
-    acronym: "ICML",
-    area: "Machine Learning",
-    location: "Seoul, South Korea",
-    website: "https://icml.cc/Conferences/2026",
-    submissionLink: "https://icml.cc/Conferences/2026/CallForPapers",
-    deadline: {
-      month: 1,
-      day: 28,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "Jan 28, 23:59 (AoE)",
-    },
-    note: "ICML 2026 main paper deadline; abstract due Jan 23.",
-  },
-  {
-    id: "iclr",
-    name: "International Conference on Learning Representations",
-    acronym: "ICLR",
-    area: "Machine Learning",
-    location: "TBD",
-    website: "https://iclr.cc/Conferences/2026",
-    submissionLink: "https://iclr.cc/Conferences/2026/CallForPapers",
-    deadline: {
-      month: 9,
-      day: 24,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "Sep 24, 23:59 (AoE)",
-    },
-    note: "ICLR 2026 main submission; abstract due Sep 19.",
-  },
-  {
-    id: "aistats",
-    name: "International Conference on Artificial Intelligence and Statistics",
-    acronym: "AISTATS",
-    area: "Machine Learning",
-    location: "Tangier, Morocco",
-    website: "https://aistats.org/aistats2026/",
-    submissionLink: "https://virtual.aistats.org/Conferences/2026",
-    deadline: {
-      month: 10,
-      day: 10,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "Oct 10, 23:59 (AoE)",
-      estimated: true,
-    },
-    note: "2026 CFP dates pending; deadline follows prior cadence.",
-  },
-  {
-    id: "colt",
-    name: "Conference on Learning Theory",
-    acronym: "COLT",
-    area: "Machine Learning",
-    location: "San Diego, CA, USA",
-    website: "https://learningtheory.org/",
-    submissionLink: "https://learningtheory.org/colt2026/",
-    deadline: {
-      month: 2,
-      day: 4,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "Feb 4, 23:59 (AoE)",
-    },
-    note: "COLT 2026 submission deadline; conference Jun 29-Jul 3 in San Diego.",
-  },
-  {
-    id: "jmlr",
-    name: "Journal of Machine Learning Research",
-    acronym: "JMLR",
-    area: "Machine Learning",
-    website: "https://www.jmlr.org/",
-    note: "Open journal with rolling submissions.",
-    isRolling: true,
-  },
-  {
-    id: "aaai",
-    name: "AAAI Conference on Artificial Intelligence",
-    acronym: "AAAI",
-    area: "Artificial Intelligence",
-    location: "Singapore",
-    website: "https://aaai.org/conference/aaai-26/",
-    submissionLink: "https://aaai.org/conference/aaai/aaai-26/",
-    deadline: {
-      month: 8,
-      day: 1,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "Aug 1, 23:59 (AoE)",
-    },
-    note: "AAAI-26 main paper deadline; abstracts due Jul 25.",
-  },
-  {
-    id: "ijcai",
-    name: "International Joint Conference on Artificial Intelligence",
-    acronym: "IJCAI",
-    area: "Artificial Intelligence",
-    location: "TBD",
-    website: "https://ijcai.org/",
-    submissionLink: "https://ijcai.org/",
-    deadline: {
-      month: 1,
-      day: 16,
-      hour: 23,
-      minute: 59,
-      offset: "+00:00",
-      label: "Jan 16, 23:59 (UTC)",
-      estimated: true,
-    },
-    note: "Next IJCAI details pending; deadline follows prior cycle.",
-  },
-  {
-    id: "uai",
-    name: "Conference on Uncertainty in Artificial Intelligence",
-    acronym: "UAI",
-    area: "Artificial Intelligence",
-    location: "TBD",
-    website: "https://www.auai.org/",
-    submissionLink: "https://www.auai.org/",
-    deadline: {
-      month: 3,
-      day: 1,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "Mar 1, 23:59 (AoE)",
-      estimated: true,
-    },
-    note: "Awaiting UAI 2026 CFP; date based on prior cadence.",
-  },
-  {
-    id: "aamas",
-    name: "International Conference on Autonomous Agents and Multiagent Systems",
-    acronym: "AAMAS",
-    area: "Artificial Intelligence",
-    location: "TBD",
-    website: "https://aamas2026.org/",
-    submissionLink: "https://aamas2026.org/",
-    deadline: {
-      month: 10,
-      day: 8,
-      hour: 23,
-      minute: 59,
-      offset: "+13:00",
-      label: "Oct 8, 23:59 (NZDT)",
-      estimated: true,
-    },
-    note: "Awaiting AAMAS 2026 CFP; deadline follows 2025 cadence.",
-  },
-  {
-    id: "cvpr",
-    name: "IEEE Conference on Computer Vision and Pattern Recognition",
-    acronym: "CVPR",
-    area: "Computer Vision",
-    location: "Denver, CO, USA",
-    website: "https://cvpr.thecvf.com/Conferences/2026",
-    submissionLink: "https://cvpr.thecvf.com/Conferences/2026/CallForPapers",
-    deadline: {
-      month: 11,
-      day: 13,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "Nov 13, 23:59 (AoE)",
-    },
-    note: "CVPR 2026 cycle.",
-  },
-  {
-    id: "iccv",
-    name: "IEEE/CVF International Conference on Computer Vision",
-    acronym: "ICCV",
-    area: "Computer Vision",
-    location: "TBD",
-    website: "https://iccv.thecvf.com/",
-    submissionLink: "https://iccv.thecvf.com/",
-    note: "Next ICCV is 2027; details pending.",
-  },
-  {
-    id: "eccv",
-    name: "European Conference on Computer Vision",
-    acronym: "ECCV",
-    area: "Computer Vision",
-    location: "Prague, Czechia",
-    website: "https://eccv2026.eu/",
-    submissionLink: "https://eccv2026.eu/",
-    deadline: {
-      month: 3,
-      day: 6,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "Mar 6, 23:59 (AoE)",
-      estimated: true,
-    },
-  },
-  {
-    id: "ijcv",
-    name: "International Journal of Computer Vision",
-    acronym: "IJCV",
-    area: "Computer Vision",
-    website: "https://www.springer.com/journal/11263",
-    note: "Journal with rolling submissions.",
-    isRolling: true,
-  },
-  {
-    id: "pami",
-    name: "IEEE Transactions on Pattern Analysis and Machine Intelligence",
-    acronym: "TPAMI",
-    area: "Computer Vision",
-    website: "https://ieeexplore.ieee.org/xpl/RecentIssue.jsp?punumber=34",
-    note: "Journal with rolling submissions.",
-    isRolling: true,
-  },
-  {
-    id: "acl",
-    name: "Annual Meeting of the Association for Computational Linguistics",
-    acronym: "ACL",
-    area: "Natural Language Processing",
-    location: "San Diego, CA, USA",
-    website: "https://2026.aclweb.org/",
-    submissionLink: "https://2026.aclweb.org/calls/main_conference_papers/",
-    deadline: {
-      month: 1,
-      day: 5,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "Jan 5, 23:59 (AoE)",
-    },
-    note: "ACL 2026 main submission; ARR commitment track.",
-  },
-  {
-    id: "emnlp",
-    name: "Conference on Empirical Methods in Natural Language Processing",
-    acronym: "EMNLP",
-    area: "Natural Language Processing",
-    location: "TBD",
-    website: "https://emnlp.org/",
-    submissionLink: "https://emnlp.org/",
-    deadline: {
-      month: 5,
-      day: 19,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "May 19, 23:59 (AoE)",
-      estimated: true,
-    },
-    note: "Awaiting EMNLP 2026 venue and CFP; deadline follows 2025 ARR cadence.",
-  },
-  {
-    id: "tacl",
-    name: "Transactions of the Association for Computational Linguistics",
-    acronym: "TACL",
-    area: "Natural Language Processing",
-    website: "https://transacl.org/",
-    note: "Journal with rolling submissions.",
-    isRolling: true,
-  },
-  {
-    id: "rss",
-    name: "Robotics: Science and Systems",
-    acronym: "RSS",
-    area: "Robotics",
-    location: "Sydney, Australia",
-    website: "https://roboticsconference.org/",
-    submissionLink: "https://roboticsconference.org/",
-    deadline: {
-      month: 1,
-      day: 30,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "Jan 30, 23:59 (AoE)",
-    },
-    note: "RSS 2026 paper submission; abstracts due Jan 23.",
-  },
-  {
-    id: "corl",
-    name: "Conference on Robot Learning",
-    acronym: "CoRL",
-    area: "Robotics",
-    location: "Seoul, South Korea",
-    website: "https://corl.org/",
-    submissionLink: "https://corl.org/",
-    deadline: {
-      month: 5,
-      day: 6,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "May 6, 23:59 (AoE)",
-      estimated: true,
-    },
-    note: "CoRL 2025 in Seoul; next cycle dates not yet posted.",
-  },
-  {
-    id: "tro",
-    name: "IEEE Transactions on Robotics",
-    acronym: "T-RO",
-    area: "Robotics",
-    website: "https://www.ieee-ras.org/publications/t-ro",
-    note: "Journal with rolling submissions.",
-    isRolling: true,
-  },
-  {
-    id: "ijrr",
-    name: "International Journal of Robotics Research",
-    acronym: "IJRR",
-    area: "Robotics",
-    website: "https://journals.sagepub.com/home/ijr",
-    note: "Journal with rolling submissions.",
-    isRolling: true,
-  },
-  {
-    id: "sciencerobotics",
-    name: "Science Robotics",
-    acronym: "Science Robotics",
-    area: "Robotics",
-    website: "https://www.science.org/journal/scirobotics",
-    note: "Journal with rolling submissions.",
-    isRolling: true,
-  },
-  {
-    id: "kdd",
-    name: "ACM SIGKDD Conference on Knowledge Discovery and Data Mining",
-    acronym: "KDD",
-    area: "Data Mining & IR",
-    location: "TBD",
-    website: "https://kdd.org/",
-    submissionLink: "https://kdd.org/",
-    deadline: {
-      month: 2,
-      day: 10,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "Feb 10, 23:59 (AoE)",
-      estimated: true,
-    },
-    note: "Awaiting KDD 2026 CFP; deadline follows 2025 cadence.",
-  },
-  {
-    id: "sigir",
-    name: "ACM SIGIR Conference on Research and Development in Information Retrieval",
-    acronym: "SIGIR",
-    area: "Data Mining & IR",
-    location: "TBD",
-    website: "https://sigir.org/",
-    submissionLink: "https://sigir.org/",
-    deadline: {
-      month: 1,
-      day: 22,
-      hour: 23,
-      minute: 59,
-      offset: "+00:00",
-      label: "Jan 22, 23:59 (UTC)",
-      estimated: true,
-    },
-    note: "Next SIGIR details pending; deadline follows prior cadence.",
-  },
-  {
-    id: "wsdm",
-    name: "ACM International Conference on Web Search and Data Mining",
-    acronym: "WSDM",
-    area: "Data Mining & IR",
-    location: "Boise, ID, USA",
-    website: "https://www.wsdm-conference.org/2026/",
-    submissionLink: "https://www.wsdm-conference.org/2026/index.php/call-for-papers/",
-    deadline: {
-      month: 8,
-      day: 14,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "Aug 14, 23:59 (AoE)",
-    },
-    note: "WSDM 2026 full paper deadline; abstracts due Aug 7.",
-  },
-  {
-    id: "acmmm",
-    name: "ACM International Conference on Multimedia",
-    acronym: "ACM MM",
-    area: "Graphics & Multimedia",
-    location: "Rio de Janeiro, Brazil",
-    website: "https://2026.acmmm.org/",
-    submissionLink: "https://2026.acmmm.org/important-dates/",
-    deadline: {
-      month: 4,
-      day: 10,
-      hour: 23,
-      minute: 59,
-      offset: "-12:00",
-      label: "Apr 10, 23:59 (AoE)",
-      estimated: true,
-    },
-    note: "ACM MM 2026 in Rio; deadline placeholder until CFP posts.",
-  },
-  {
-    id: "siggraph",
-    name: "ACM SIGGRAPH Conference",
-    acronym: "SIGGRAPH",
-    area: "Graphics & Multimedia",
-    location: "Los Angeles, USA",
-    website: "https://s2026.siggraph.org/",
-    submissionLink: "https://s2026.siggraph.org/submissions/",
-    deadline: {
-      month: 1,
-      day: 30,
-      hour: 22,
-      minute: 0,
-      offset: "-08:00",
-      label: "Jan 30, 22:00 (PT)",
-      estimated: true,
-    },
-    note: "SIGGRAPH 2026 in Los Angeles, Jul 19-23; submission deadline placeholder until program CFPs post.",
-  },
-  {
-    id: "facct",
-    name: "ACM Conference on Fairness, Accountability, and Transparency",
-    acronym: "ACM FAccT",
-    area: "Responsible AI & Society",
-    location: "TBD",
-    website: "https://facctconference.org/",
-    submissionLink: "https://facctconference.org/",
-    deadline: {
-      month: 1,
-      day: 16,
-      hour: 23,
-      minute: 59,
-      offset: "+00:00",
-      label: "Jan 16, 23:59 (UTC)",
-      estimated: true,
-    },
-  },
-  {
-    id: "www",
-    name: "ACM Web Conference (The Web Conference)",
-    acronym: "WebConf",
-    area: "Responsible AI & Society",
-    location: "Montreal, Canada",
-    website: "https://www2026.thewebconf.org/",
-    submissionLink: "https://www2026.thewebconf.org/",
-    deadline: {
-      month: 10,
-      day: 7,
-      hour: 23,
-      minute: 59,
-      offset: "+00:00",
-      label: "Oct 7, 23:59 (UTC)",
-      estimated: true,
-    },
-  },
-];
+export type ChangeType = "added" | "deadline-moved" | "confirmed";
+
+export const changeTypeLabels: Record<ChangeType, string> = {
+  added: "New venue",
+  "deadline-moved": "Deadline moved",
+  confirmed: "Deadline confirmed",
+};
+
+export interface ChangeLogEntry {
+  /** Day the change landed, formatted as YYYY-MM-DD */
+  date: string;
+  type: ChangeType;
+  /** Id of the affected conference */
+  conference: string;
+  /** One line describing what changed, shown as the feed item title */
+  summary: string;
+}
@@ -0,0 +1,211 @@
+import type {
+  CcfRank,
+  Conference,
+  CoreRank,
+  MilestoneKind,
+  ReviewModel,
+  ReviewPlatform,
+  VenueType,
+} from "@/data/conferences";
+import {
+  type DeadlineOccurrence,
+  getDeadlineOccurrences,
+  getNextDeadline,
+  type UpcomingDeadline,
+} from "@/lib/deadlines";
+import { getConferenceLocationHref, getLocationLabel } from "@/lib/location";
+
+/** Bumped whenever a field is removed or changes meaning. */
+export const API_VERSION = 1;
+
+// Deadlines only change on deploys, but "next" moves with time.
+const CACHE_CONTROL = "public, max-age=300, s-maxage=300, stale-while-revalidate=3600";
+
+export interface ApiDeadline {
+  kind: MilestoneKind;
+  /** ISO 8601 instant in UTC */
+  at: string;
+  label: string;
+  timeZone: string;
+  estimated: boolean;
+  /** Edition year and source when the date is confirmed */
+  edition: { year: number; source: string } | null;
+  /** Set for a journal's special issue deadline */
+  specialIssue: { id: string; title: string; website: string } | null;
+}
+
+export interface ApiEdition {
+  year: number;
+  /** Official page the dates were taken from */
+  source: string;
+  /** First and last day as YYYY-MM-DD */
+  dates: { start: string; end: string } | null;
+  location: string | null;
+  /** Share of submissions accepted, between 0 and 1 */
+  acceptanceRate: number | null;
+}
+
+// Spelled out field by field rather than derived from `Conference`, so the
+// data files can change shape without changing what v1 clients receive.
+export interface ApiConference {
+  id: string;
+  name: string;
+  acronym: string;
+  area: string;
+  type: VenueType;
+  /** Parent conference id for workshops */
+  parent: string | null;
+  website: string;
+  submissionLink: string | null;
+  /** Host city of the next edition, e.g. "Seoul, South Korea" */
+  location: string | null;
+  /** Map link for `location` */
+  locationUrl: string | null;
+  coordinates: { latitude: number; longitude: number } | null;
+  /** Days of the next edition as YYYY-MM-DD */
+  eventDates: { start: string; end: string } | null;
+  note: string | null;
+  isRolling: boolean;
+  coreRank: CoreRank | null;
+  ccfRank: CcfRank | null;
+  pageLimit: number | null;
+  reviewModel: ReviewModel | null;
+  reviewPlatform: ReviewPlatform | null;
+  hasRebuttal: boolean | null;
+  /** Past and upcoming editions, as listed in the data */
+  editions: ApiEdition[];
+  /** Journals only */
+  turnaround: {
+    firstDecisionDays: number;
+    acceptanceDays: number | null;
+    source: string;
+  } | null;
+  /** Conferences only: journals whose papers can be presented there */
+  journalFirst: Array<{ journal: string; source: string }>;
+  nextDeadline: ApiDeadline | null;
+}
+
+export interface ApiConferenceDetail extends ApiConference {
+  deadlines: ApiDeadline[];
+}
+
+export interface ApiUpcomingDeadline extends ApiDeadline {
+  id: string;
+  acronym: string;
+  name: string;
+  area: string;
+  /** Parent conference id for workshops */
+  parent: string | null;
+  website: string;
+  submissionLink: string | null;
+}
+
+export function serializeDeadline(occurrence: DeadlineOccurrence): ApiDeadline {
+  return {
+    kind: occurrence.kind,
+    at: occurrence.date.toISOString(),
+    label: occurrence.label,
+    timeZone: occurrence.timeZone,
+    estimated: occurrence.estimated,
+    edition: occurrence.edition
+      ? { year: occurrence.edition.year, source: occurrence.edition.source }
+      : null,
+    specialIssue: occurrence.specialIssue
+      ? {
+          id: occurrence.specialIssue.id,
+          title: occurrence.specialIssue.title,
+          website: occurrence.specialIssue.website,
+        }
+      : null,
+  };
+}
+
+export function serializeConference(conf: Conference, now: Date): ApiConference {
+  const next = getNextDeadline(conf, now);
+  const coordinates = conf.place?.coordinates;
+  return {
+    id: conf.id,
+    name: conf.name,
+    acronym: conf.acronym,
+    area: conf.area,
+    type: conf.type ?? "conference",
+    parent: conf.parent ?? null,
+    website: conf.website,
+    submissionLink: conf.submissionLink ?? null,
+    location: getLocationLabel(conf) ?? null,
+    locationUrl: getConferenceLocationHref(conf) ?? null,
+    coordinates: coordinates
+      ? { latitude: coordinates.latitude, longitude: coordinates.longitude }
+      : null,
+    eventDates: conf.eventDates
+      ? { start: conf.eventDates.start, end: conf.eventDates.end }
+      : null,
+    note: conf.note ?? null,
+    isRolling: conf.isRolling ?? false,
+    coreRank: conf.coreRank ?? null,
+    ccfRank: conf.ccfRank ?? null,
+    pageLimit: conf.pageLimit ?? null,
+    reviewModel: conf.reviewModel ?? null,
+    reviewPlatform: conf.reviewPlatform ?? null,
+    hasRebuttal: conf.hasRebuttal ?? null,
+    editions: (conf.editions ?? []).map((edition) => ({
+      year: edition.year,
+      source: edition.source,
+      dates: edition.dates
+        ? { start: edition.dates.start, end: edition.dates.end }
+        : null,
+      location: edition.location ?? null,
+      acceptanceRate: edition.acceptanceRate ?? null,
+    })),
+    turnaround: conf.turnaround
+      ? {
+          firstDecisionDays: conf.turnaround.firstDecisionDays,
+          acceptanceDays: conf.turnaround.acceptanceDays ?? null,
+          source: conf.turnaround.source,
+        }
+      : null,
+    journalFirst: (conf.journalFirst ?? []).map((track) => ({
+      journal: track.journal,
+      source: track.source,
+    })),
+    nextDeadline: next ? serializeDeadline(next) : null,
+  };
+}
+
+export function serializeConferenceDetail(
+  conf: Conference,
+  now: Date,
+): ApiConferenceDetail {
+  return {
+    ...serializeConference(conf, now),
+    deadlines: getDeadlineOccurrences(conf, now).map(serializeDeadline),
+  };
+}
+
+export function serializeUpcoming(entry: UpcomingDeadline): ApiUpcomingDeadline {
+  const { conf } = entry;
+  return {
+    id: conf.id,
+    acronym: conf.acronym,
+    name: conf.name,
+    area: conf.area,
+    parent: conf.parent ?? null,
+    website: conf.website,
+    submissionLink: conf.submissionLink ?? null,
+    ...serializeDeadline(entry),
+  };
+}
+
+export function apiResponse<T>(data: T, now: Date): Response {
+  return Response.json(
+    { apiVersion: API_VERSION, generatedAt: now.toISOString(), data },
+    { headers: { "Cache-Control": CACHE_CONTROL } },
+  );
+}
+
+export function apiError(status: number, message: string): Response {
+  return Response.json(
+    { apiVersion: API_VERSION, error: { status, message } },
+    { status, headers: { "Cache-Control": "no-store" } },
+  );
+}
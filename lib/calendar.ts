@@ -0,0 +1,124 @@
+import { type Conference, milestoneLabels } from "@/data/conferences";
+import {
+  type DeadlineOccurrence,
+  getDeadlineOccurrences,
+  getOccurrenceKey,
+} from "@/lib/deadlines";
+
+export interface CalendarOptions {
+  /** Calendar name shown by subscribing clients */
+  name: string;
+  /** Reminder offsets before each deadline, in ISO 8601 durations */
+  alarms?: string[];
+}
+
+const DEFAULT_ALARMS = ["P7D", "P1D", "PT1H"];
+
+const PRODUCT_ID = "-//ConferenceDDL//Conference Deadlines//EN";
+
+const encoder = new TextEncoder();
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 caps content lines at 75 octets; continuations start with a space.
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      chunks.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function buildEvent(
+  conf: Conference,
+  occurrence: DeadlineOccurrence,
+  now: Date,
+  alarms: string[],
+): string[] {
+  const kindLabel = milestoneLabels[occurrence.kind];
+  const summary = `${conf.acronym} ${kindLabel.toLowerCase()} deadline${occurrence.estimated ? " (est.)" : ""}`;
+  const description = [
+    `${kindLabel}: ${occurrence.label}${occurrence.estimated ? " · estimated" : ""}`,
+    occurrence.specialIssue &&
+      `${occurrence.specialIssue.title}: ${occurrence.specialIssue.website}`,
+    conf.name,
+    conf.note,
+    `Website: ${conf.website}`,
+    conf.submissionLink && `Call for papers: ${conf.submissionLink}`,
+    occurrence.edition && `Source: ${occurrence.edition.source}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+  const stamp = formatTimestamp(occurrence.date);
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${conf.id}-${getOccurrenceKey(occurrence)}-${stamp}@conferenceddl`,
+    `DTSTAMP:${formatTimestamp(now)}`,
+    `DTSTART:${stamp}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${conf.submissionLink ?? conf.website}`,
+    `CATEGORIES:${escapeText(conf.area)}`,
+    "TRANSP:TRANSPARENT",
+    ...alarms.flatMap((trigger) => [
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `TRIGGER:-${trigger}`,
+      `DESCRIPTION:${escapeText(summary)}`,
+      "END:VALARM",
+    ]),
+    "END:VEVENT",
+  ];
+}
+
+export function buildCalendar(
+  entries: Conference[],
+  now: Date,
+  options: CalendarOptions,
+): string {
+  const alarms = options.alarms ?? DEFAULT_ALARMS;
+  const events = entries.flatMap((conf) =>
+    getDeadlineOccurrences(conf, now).flatMap((occurrence) =>
+      buildEvent(conf, occurrence, now, alarms),
+    ),
+  );
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    "X-WR-TIMEZONE:UTC",
+    "REFRESH-INTERVAL;VALUE=DURATION:PT12H",
+    "X-PUBLISHED-TTL:PT12H",
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .map(foldLine)
+    .join("\r\n")
+    .concat("\r\n");
+}
@@ -0,0 +1,32 @@
+import type { Conference } from "@/data/conferences";
+import { getDeadlineOccurrences } from "@/lib/deadlines";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The next instant after `now` at which anything derived from the current
+ * time changes: a deadline closes, a deadline enters the `withinDays` window,
+ * or a new UTC day starts for event countdowns. Between pivots the order and
+ * filtering of venues stay the same, so they need no recomputing.
+ */
+export function getNextPivot(
+  conferences: Conference[],
+  now: Date,
+  withinDays: number | null,
+): Date {
+  const nextDay = (Math.floor(now.getTime() / DAY_MS) + 1) * DAY_MS;
+  let pivot = nextDay;
+
+  for (const conf of conferences) {
+    for (const occurrence of getDeadlineOccurrences(conf, now)) {
+      const closes = occurrence.date.getTime();
+      pivot = Math.min(pivot, closes);
+      if (withinDays !== null) {
+        const enters = closes - withinDays * DAY_MS;
+        if (enters > now.getTime()) pivot = Math.min(pivot, enters);
+      }
+    }
+  }
+
+  return new Date(pivot);
+}
@@ -0,0 +1,127 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import YAML from "yaml";
+
+import type { ChangeLogEntry, Conference } from "@/data/conferences";
+import {
+  formatValidationReport,
+  validateChangeLog,
+  validateConferences,
+  type ValidationIssue,
+} from "@/lib/schema";
+
+/** One venue per file; a file may also hold a list, e.g. another group's venues. */
+export const VENUE_DIRECTORY = path.join(process.cwd(), "data", "venues");
+
+const VENUE_EXTENSIONS = new Set([".yaml", ".yml", ".json"]);
+
+/** Hand-written log of venue additions and deadline changes, newest last. */
+export const CHANGELOG_FILE = path.join(process.cwd(), "data", "changelog.yaml");
+
+export interface VenueFileEntry {
+  /** Path relative to the venue directory */
+  file: string;
+  value: unknown;
+}
+
+let cached: Conference[] | undefined;
+let cachedChangeLog: ChangeLogEntry[] | undefined;
+
+export function readVenueFiles(directory = VENUE_DIRECTORY): VenueFileEntry[] {
+  return fs
+    .readdirSync(directory)
+    .filter((file) => VENUE_EXTENSIONS.has(path.extname(file)))
+    .sort()
+    .flatMap((file) => {
+      const text = fs.readFileSync(path.join(directory, file), "utf8");
+      let parsed: unknown;
+      try {
+        parsed =
+          path.extname(file) === ".json" ? JSON.parse(text) : YAML.parse(text);
+      } catch (error) {
+        throw new Error(
+          `Could not parse data/venues/${file}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      const values = Array.isArray(parsed) ? parsed : [parsed];
+      return values.map((value) => ({ file, value }));
+    });
+}
+
+/** Flags single-venue files whose name does not match the venue id. */
+export function checkVenueFileNames(entries: VenueFileEntry[]): ValidationIssue[] {
+  return entries.flatMap(({ file, value }) => {
+    const id = (value as { id?: unknown } | null)?.id;
+    const single = entries.filter((entry) => entry.file === file).length === 1;
+    const expected = path.basename(file, path.extname(file));
+    if (!single || typeof id !== "string" || id === expected) return [];
+    return [
+      {
+        entry: id,
+        path: "id",
+        message: `Stored in ${file}; rename the file to ${id}${path.extname(file)}`,
+      },
+    ];
+  });
+}
+
+export function validateVenueFiles(entries: VenueFileEntry[]): ValidationIssue[] {
+  return [
+    ...validateConferences(entries.map((entry) => entry.value)),
+    ...checkVenueFileNames(entries),
+  ];
+}
+
+/**
+ * Loads and validates every venue file. Throws with a per-entry report so a
+ * broken file fails the build instead of rendering a wrong countdown.
+ */
+export function loadConferences(directory = VENUE_DIRECTORY): Conference[] {
+  const entries = readVenueFiles(directory);
+  const issues = validateVenueFiles(entries);
+  if (issues.length) {
+    throw new Error(
+      `Invalid venue data in ${path.relative(process.cwd(), directory)}:\n\n${formatValidationReport(issues)}`,
+    );
+  }
+  return entries.map((entry) => entry.value as Conference);
+}
+
+export function getConferences(): Conference[] {
+  cached ??= loadConferences();
+  return cached;
+}
+
+export function getConference(id: string): Conference | undefined {
+  return getConferences().find((conf) => conf.id === id);
+}
+
+export function readChangeLogFile(file = CHANGELOG_FILE): unknown[] {
+  // An empty feed would look valid, so a file left out of a deployment fails loudly.
+  if (!fs.existsSync(file)) {
+    throw new Error(`${path.relative(process.cwd(), file)} is missing`);
+  }
+  const parsed: unknown = YAML.parse(fs.readFileSync(file, "utf8"));
+  if (parsed === null) return [];
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${path.relative(process.cwd(), file)} must contain a list of changes`);
+  }
+  return parsed;
+}
+
+/** Validated change log, newest first; the file itself is kept oldest first. */
+export function getChangeLog(): ChangeLogEntry[] {
+  if (!cachedChangeLog) {
+    const entries = readChangeLogFile();
+    const issues = validateChangeLog(
+      entries,
+      getConferences().map((conf) => conf.id),
+    );
+    if (issues.length) {
+      throw new Error(`Invalid change log:\n\n${formatValidationReport(issues)}`);
+    }
+    cachedChangeLog = [...(entries as ChangeLogEntry[])].reverse();
+  }
+  return cachedChangeLog;
+}
@@ -0,0 +1,197 @@
+import {
+  type ConferenceFilters,
+  emptyFilters,
+  resolveAreaSlugs,
+  type ScheduleFilter,
+  type StatusFilter,
+  type VenueTypeFilter,
+} from "@/lib/filters";
+import { resolveContinentSlugs } from "@/lib/geo";
+import { slugify } from "@/lib/slug";
+
+export type SortKey =
+  | "default"
+  | "area"
+  | "acronym"
+  | "deadline"
+  | "countdown"
+  | "location"
+  | "rank"
+  | "acceptance"
+  | "pages"
+  | "review"
+  | "dates";
+export type SortDirection = "asc" | "desc";
+
+export interface SortState {
+  key: SortKey;
+  direction: SortDirection;
+}
+
+export type ViewMode = "combined" | "sectioned" | "starred" | "timeline" | "map";
+
+/** Venue metadata columns that are hidden unless chosen. */
+export type OptionalColumn = "dates" | "rank" | "acceptance" | "pages" | "review";
+
+export const optionalColumnLabels: Record<OptionalColumn, string> = {
+  dates: "Conference dates",
+  rank: "Rank",
+  acceptance: "Acceptance",
+  pages: "Pages",
+  review: "Review",
+};
+
+export interface DashboardState {
+  viewMode: ViewMode;
+  sort: SortState;
+  filters: ConferenceFilters;
+  columns: OptionalColumn[];
+}
+
+export const defaultSort: SortState = { key: "default", direction: "asc" };
+
+const viewModes: ViewMode[] = [
+  "combined",
+  "sectioned",
+  "starred",
+  "timeline",
+  "map",
+];
+const sortKeys: SortKey[] = [
+  "default",
+  "area",
+  "acronym",
+  "deadline",
+  "countdown",
+  "location",
+  "rank",
+  "acceptance",
+  "pages",
+  "review",
+  "dates",
+];
+const optionalColumns = Object.keys(optionalColumnLabels) as OptionalColumn[];
+const statusFilters: StatusFilter[] = ["all", "confirmed", "estimated"];
+const scheduleFilters: ScheduleFilter[] = ["all", "dated", "rolling"];
+const venueTypeFilters: VenueTypeFilter[] = ["all", "conference", "journal"];
+
+function pick<T extends string>(
+  value: string | null,
+  allowed: readonly T[],
+  fallback: T,
+): T {
+  return allowed.find((entry) => entry === value) ?? fallback;
+}
+
+/**
+ * Reads the dashboard state from a query string. Unknown or malformed values
+ * fall back to the defaults so stale links still open.
+ */
+export function parseDashboardState(search: string): DashboardState {
+  const params = new URLSearchParams(search);
+  const sortKey = pick(params.get("sort"), sortKeys, defaultSort.key);
+  const within = Number(params.get("within"));
+
+  return {
+    viewMode: pick(params.get("view"), viewModes, "combined"),
+    sort: {
+      key: sortKey,
+      direction:
+        sortKey !== "default" && params.get("dir") === "desc" ? "desc" : "asc",
+    },
+    filters: {
+      query: params.get("q") ?? emptyFilters.query,
+      areas: resolveAreaSlugs(params.getAll("area")).areas,
+      continents: resolveContinentSlugs(params.getAll("continent")).continents,
+      status: pick(params.get("status"), statusFilters, emptyFilters.status),
+      schedule: pick(
+        params.get("schedule"),
+        scheduleFilters,
+        emptyFilters.schedule,
+      ),
+      venueType: pick(
+        params.get("type"),
+        venueTypeFilters,
+        emptyFilters.venueType,
+      ),
+      withinDays: Number.isInteger(within) && within > 0 ? within : null,
+      workshops: params.get("workshops") === "true",
+    },
+    // Kept in a fixed order so the same set always serializes the same way.
+    columns: optionalColumns.filter((column) =>
+      params.getAll("col").includes(column),
+    ),
+  };
+}
+
+/** Serializes the dashboard state, leaving defaults out to keep links short. */
+export function serializeDashboardState(state: DashboardState): string {
+  const params = new URLSearchParams();
+  if (state.viewMode !== "combined") params.set("view", state.viewMode);
+  if (state.sort.key !== defaultSort.key) {
+    params.set("sort", state.sort.key);
+    if (state.sort.direction === "desc") params.set("dir", "desc");
+  }
+
+  const { filters } = state;
+  if (filters.query) params.set("q", filters.query);
+  for (const area of filters.areas) params.append("area", slugify(area));
+  for (const continent of filters.continents) {
+    params.append("continent", slugify(continent));
+  }
+  if (filters.status !== "all") params.set("status", filters.status);
+  if (filters.schedule !== "all") params.set("schedule", filters.schedule);
+  if (filters.venueType !== "all") params.set("type", filters.venueType);
+  if (filters.withinDays !== null) {
+    params.set("within", String(filters.withinDays));
+  }
+  if (filters.workshops) params.set("workshops", "true");
+  for (const column of state.columns) params.append("col", column);
+  return params.toString();
+}
+
+/** Link to the dashboard showing `state`. */
+export function getDashboardHref(state: DashboardState): string {
+  const query = serializeDashboardState(state);
+  return query ? `/?${query}` : "/";
+}
+
+/** Clicking a column header cycles ascending, descending, then back to default. */
+export function getNextSort(sort: SortState, key: SortKey): SortState {
+  if (sort.key === key) {
+    if (sort.direction === "asc") return { key, direction: "desc" };
+    if (sort.direction === "desc") return defaultSort;
+  }
+  return { key, direction: "asc" };
+}
+
+/** Switches the view, dropping an area sort that sections make redundant. */
+export function withViewMode(
+  state: DashboardState,
+  viewMode: ViewMode,
+): DashboardState {
+  return {
+    ...state,
+    viewMode,
+    sort:
+      viewMode === "sectioned" && state.sort.key === "area"
+        ? defaultSort
+        : state.sort,
+  };
+}
+
+/** Shows or hides a column; hiding the sorted column resets the sort. */
+export function withColumnToggled(
+  state: DashboardState,
+  column: OptionalColumn,
+): DashboardState {
+  const columns = state.columns.includes(column)
+    ? state.columns.filter((entry) => entry !== column)
+    : [...state.columns, column];
+  const hidesSortColumn = !columns.includes(column) && state.sort.key === column;
+  return {
+    ...state,
+    columns: optionalColumns.filter((entry) => columns.includes(entry)),
+    sort: hidesSortColumn ? defaultSort : state.sort,
+  };
+}
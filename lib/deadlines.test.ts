@@ -0,0 +1,175 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { RecurringDeadline } from "@/data/conferences";
+import { formatCountdown, getNextOccurrence } from "@/lib/deadlines";
+
+function deadline(overrides: Partial<RecurringDeadline>): RecurringDeadline {
+  return { month: 11, day: 14, hour: 23, minute: 59, timeZone: "UTC", ...overrides };
+}
+
+function next(overrides: Partial<RecurringDeadline>, pivot: string): string {
+  return getNextOccurrence(deadline(overrides), new Date(pivot)).toISOString();
+}
+
+describe("getNextOccurrence", () => {
+  it("returns this year's deadline while it is still ahead", () => {
+    assert.equal(next({}, "2026-06-01T00:00:00Z"), "2026-11-14T23:59:00.000Z");
+  });
+
+  it("rolls over to next year once the deadline has passed", () => {
+    assert.equal(next({}, "2026-12-01T00:00:00Z"), "2027-11-14T23:59:00.000Z");
+  });
+
+  describe("at the exact pivot", () => {
+    it("treats a deadline at the pivot as closed", () => {
+      assert.equal(next({}, "2026-11-14T23:59:00Z"), "2027-11-14T23:59:00.000Z");
+    });
+
+    it("keeps a deadline one millisecond after the pivot", () => {
+      assert.equal(
+        next({}, "2026-11-14T23:58:59.999Z"),
+        "2026-11-14T23:59:00.000Z",
+      );
+    });
+
+    it("rolls a Dec 31 deadline over at midnight", () => {
+      const dec31 = { month: 12, day: 31 };
+      assert.equal(next(dec31, "2026-12-31T23:59:00Z"), "2027-12-31T23:59:00.000Z");
+    });
+  });
+
+  describe("leap days", () => {
+    const leapDay = { month: 2, day: 29 };
+
+    it("keeps Feb 29 in a leap year", () => {
+      assert.equal(next(leapDay, "2027-06-01T00:00:00Z"), "2028-02-29T23:59:00.000Z");
+    });
+
+    it("moves Feb 29 to Feb 28 in a common year", () => {
+      assert.equal(next(leapDay, "2026-01-01T00:00:00Z"), "2026-02-28T23:59:00.000Z");
+    });
+
+    it("rolls from the clamped Feb 28 to the next year's date", () => {
+      assert.equal(next(leapDay, "2027-03-01T00:00:00Z"), "2028-02-29T23:59:00.000Z");
+    });
+  });
+
+  describe("around New Year", () => {
+    it("keeps Dec 31 AoE open after UTC midnight", () => {
+      assert.equal(
+        next({ month: 12, day: 31, timeZone: "AoE" }, "2027-01-01T06:00:00Z"),
+        "2027-01-01T11:59:00.000Z",
+      );
+    });
+
+    it("closes Dec 31 UTC at UTC midnight", () => {
+      assert.equal(
+        next({ month: 12, day: 31 }, "2027-01-01T06:00:00Z"),
+        "2027-12-31T23:59:00.000Z",
+      );
+    });
+
+    it("rolls Dec 31 AoE over once it closes", () => {
+      assert.equal(
+        next({ month: 12, day: 31, timeZone: "AoE" }, "2027-01-01T12:00:00Z"),
+        "2028-01-01T11:59:00.000Z",
+      );
+    });
+
+    it("finds Jan 1 Asia/Tokyo before UTC reaches the new year", () => {
+      assert.equal(
+        next(
+          { month: 1, day: 1, hour: 0, minute: 30, timeZone: "Asia/Tokyo" },
+          "2025-12-31T12:00:00Z",
+        ),
+        "2025-12-31T15:30:00.000Z",
+      );
+    });
+
+    it("moves Jan 1 Asia/Tokyo to next year once it has passed", () => {
+      assert.equal(
+        next(
+          { month: 1, day: 1, hour: 0, minute: 30, timeZone: "Asia/Tokyo" },
+          "2025-12-31T16:00:00Z",
+        ),
+        "2026-12-31T15:30:00.000Z",
+      );
+    });
+  });
+
+  describe("daylight saving time", () => {
+    const losAngeles = { hour: 12, minute: 0, timeZone: "America/Los_Angeles" };
+
+    it("uses standard time before the spring change", () => {
+      assert.equal(
+        next({ ...losAngeles, month: 3, day: 1 }, "2026-01-01T00:00:00Z"),
+        "2026-03-01T20:00:00.000Z",
+      );
+    });
+
+    it("uses daylight time on the day of the spring change", () => {
+      assert.equal(
+        next({ ...losAngeles, month: 3, day: 8 }, "2026-01-01T00:00:00Z"),
+        "2026-03-08T19:00:00.000Z",
+      );
+    });
+
+    it("uses standard time again on the day of the autumn change", () => {
+      assert.equal(
+        next(
+          { month: 11, day: 1, timeZone: "America/Los_Angeles" },
+          "2026-06-01T00:00:00Z",
+        ),
+        "2026-11-02T07:59:00.000Z",
+      );
+    });
+
+    it("follows a southern hemisphere zone", () => {
+      const sydney = { hour: 12, minute: 0, timeZone: "Australia/Sydney" };
+      assert.equal(
+        next({ ...sydney, month: 1, day: 15 }, "2026-01-01T00:00:00Z"),
+        "2026-01-15T01:00:00.000Z",
+      );
+      assert.equal(
+        next({ ...sydney, month: 7, day: 15 }, "2026-01-01T00:00:00Z"),
+        "2026-07-15T02:00:00.000Z",
+      );
+    });
+  });
+});
+
+describe("formatCountdown", () => {
+  const now = new Date("2026-01-01T00:00:00Z");
+  const after = (ms: number) => new Date(now.getTime() + ms);
+  const SECOND = 1000;
+  const MINUTE = 60 * SECOND;
+  const HOUR = 60 * MINUTE;
+  const DAY = 24 * HOUR;
+
+  it("shows days, hours and minutes a day or more ahead", () => {
+    assert.equal(
+      formatCountdown(after(3 * DAY + 4 * HOUR + 5 * MINUTE + 6 * SECOND), now),
+      "3d 4h 5m",
+    );
+    assert.equal(formatCountdown(after(DAY), now), "1d 0h 0m");
+  });
+
+  it("shows hours, minutes and seconds within a day", () => {
+    assert.equal(
+      formatCountdown(after(23 * HOUR + 59 * MINUTE + 59 * SECOND), now),
+      "23h 59m 59s",
+    );
+    assert.equal(formatCountdown(after(HOUR), now), "1h 0m 0s");
+  });
+
+  it("shows minutes and seconds within an hour", () => {
+    assert.equal(formatCountdown(after(5 * MINUTE + 7 * SECOND), now), "5m 7s");
+    assert.equal(formatCountdown(after(999), now), "0m 0s");
+  });
+
+  it("reads Closed at the deadline and after it", () => {
+    assert.equal(formatCountdown(now, now), "Closed");
+    assert.equal(formatCountdown(after(-DAY), now), "Closed");
+  });
+});
@@ -0,0 +1,304 @@
+import type {
+  Conference,
+  Edition,
+  MilestoneKind,
+  RecurringDeadline,
+  SpecialIssue,
+} from "@/data/conferences";
+
+export interface DeadlineOccurrence {
+  kind: MilestoneKind;
+  date: Date;
+  label: string;
+  timeZone: string;
+  estimated: boolean;
+  /** Confirmed edition the date was taken from, if any */
+  edition?: Edition;
+  /** Journal special issue the deadline belongs to */
+  specialIssue?: SpecialIssue;
+}
+
+// A confirmed edition covers one cycle, so the recurring fallback only
+// estimates deadlines well past the latest confirmed date of that kind.
+const CONFIRMED_CYCLE_MS = 180 * 24 * 60 * 60 * 1000;
+
+// Anywhere on Earth is UTC-12 year-round; IANA spells that Etc/GMT+12.
+const AOE_TIME_ZONE = "Etc/GMT+12";
+
+export const DATED_DEADLINE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+function resolveTimeZone(timeZone: string): string {
+  return timeZone === "AoE" ? AOE_TIME_ZONE : timeZone;
+}
+
+// Building an Intl.DateTimeFormat is far slower than using one, and sorting
+// resolves deadlines for every venue, so each zone keeps its formatters.
+const formatOptions = {
+  offset: (timeZone: string): Intl.DateTimeFormatOptions => ({
+    timeZone: resolveTimeZone(timeZone),
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }),
+  label: (timeZone: string): Intl.DateTimeFormatOptions => ({
+    timeZone: resolveTimeZone(timeZone),
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }),
+  zoneName: (timeZone: string): Intl.DateTimeFormatOptions => ({
+    timeZone,
+    timeZoneName: "short",
+  }),
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(
+  use: keyof typeof formatOptions,
+  timeZone: string,
+): Intl.DateTimeFormat {
+  const key = `${use}:${timeZone}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", formatOptions[use](timeZone));
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter("label", timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getOffsetMinutes(timeZone: string, instant: Date): number {
+  const parts = getFormatter("offset", timeZone).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((entry) => entry.type === type)?.value ?? 0);
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second"),
+  );
+  return Math.round((wallClock - instant.getTime()) / 60000);
+}
+
+export function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // The offset depends on the instant itself, so refine once to land on the
+  // correct side of a daylight saving transition.
+  const guess = wallClock - getOffsetMinutes(timeZone, new Date(wallClock)) * 60000;
+  return new Date(
+    wallClock - getOffsetMinutes(timeZone, new Date(guess)) * 60000,
+  );
+}
+
+export function parseDatedDeadline(at: string, timeZone: string): Date {
+  const match = DATED_DEADLINE_PATTERN.exec(at);
+  if (!match) return new Date(Number.NaN);
+  const [, year, month, day, hour, minute] = match.map(Number);
+  return zonedTimeToDate(year, month, day, hour, minute, timeZone);
+}
+
+export function formatDeadlineLabel(date: Date, timeZone: string): string {
+  const formatted = getFormatter("label", timeZone).format(date);
+  if (timeZone === "AoE") return `${formatted} (AoE)`;
+
+  const zoneName = getFormatter("zoneName", timeZone)
+    .formatToParts(date)
+    .find((entry) => entry.type === "timeZoneName")?.value;
+  return zoneName ? `${formatted} (${zoneName})` : formatted;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * First occurrence of a recurring deadline strictly after `pivot`. A Feb 29
+ * deadline falls on Feb 28 in common years instead of rolling into March.
+ */
+export function getNextOccurrence(deadline: RecurringDeadline, pivot: Date): Date {
+  const buildDate = (year: number) =>
+    zonedTimeToDate(
+      year,
+      deadline.month,
+      Math.min(deadline.day, daysInMonth(year, deadline.month)),
+      deadline.hour,
+      deadline.minute,
+      deadline.timeZone,
+    );
+
+  // The deadline's local year can differ from the pivot's UTC year around New
+  // Year: Dec 31 AoE is already Jan 1 in UTC, Jan 1 in Tokyo still Dec 31.
+  const baseYear = pivot.getUTCFullYear();
+  const candidates = [baseYear - 1, baseYear, baseYear + 1, baseYear + 2].map(
+    buildDate,
+  );
+  return (
+    candidates.find((candidate) => candidate.getTime() > pivot.getTime()) ??
+    candidates[candidates.length - 1]
+  );
+}
+
+function resolveKind(
+  conf: Conference,
+  kind: MilestoneKind,
+  pivot: Date,
+): DeadlineOccurrence | null {
+  const confirmed = (conf.editions ?? [])
+    .flatMap((edition) =>
+      edition.deadlines
+        .filter((deadline) => deadline.kind === kind)
+        .map((deadline) => {
+          const date = parseDatedDeadline(deadline.at, deadline.timeZone);
+          return {
+            kind,
+            date,
+            label: formatDeadlineLabel(date, deadline.timeZone),
+            timeZone: deadline.timeZone,
+            estimated: false,
+            edition,
+          };
+        }),
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const upcoming = confirmed.find(
+    (entry) => entry.date.getTime() > pivot.getTime(),
+  );
+  if (upcoming) return upcoming;
+
+  const milestone = conf.milestones?.find((entry) => entry.kind === kind);
+  if (!milestone) return null;
+
+  const latest = confirmed.at(-1);
+  const fallbackPivot = latest
+    ? new Date(
+        Math.max(pivot.getTime(), latest.date.getTime() + CONFIRMED_CYCLE_MS),
+      )
+    : pivot;
+
+  const date = getNextOccurrence(milestone, fallbackPivot);
+  return {
+    kind,
+    date,
+    label: formatDeadlineLabel(date, milestone.timeZone),
+    timeZone: milestone.timeZone,
+    estimated: Boolean(milestone.estimated || latest),
+  };
+}
+
+/** Tells apart occurrences of one venue, e.g. two open special issues. */
+export function getOccurrenceKey(occurrence: DeadlineOccurrence): string {
+  return occurrence.specialIssue
+    ? `${occurrence.kind}-${occurrence.specialIssue.id}`
+    : occurrence.kind;
+}
+
+function resolveSpecialIssues(
+  conf: Conference,
+  pivot: Date,
+): DeadlineOccurrence[] {
+  return (conf.specialIssues ?? []).flatMap((specialIssue) => {
+    const date = parseDatedDeadline(specialIssue.at, specialIssue.timeZone);
+    if (date.getTime() <= pivot.getTime()) return [];
+    return {
+      kind: "special-issue" as const,
+      date,
+      label: formatDeadlineLabel(date, specialIssue.timeZone),
+      timeZone: specialIssue.timeZone,
+      estimated: false,
+      specialIssue,
+    };
+  });
+}
+
+export function getDeadlineOccurrences(
+  conf: Conference,
+  pivot: Date,
+): DeadlineOccurrence[] {
+  const specialIssues = resolveSpecialIssues(conf, pivot);
+  if (conf.isRolling) {
+    return specialIssues.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+  const kinds = new Set<MilestoneKind>([
+    ...(conf.milestones ?? []).map((milestone) => milestone.kind),
+    ...(conf.editions ?? []).flatMap((edition) =>
+      edition.deadlines.map((deadline) => deadline.kind),
+    ),
+  ]);
+  return [...kinds]
+    .flatMap((kind) => resolveKind(conf, kind, pivot) ?? [])
+    .concat(specialIssues)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export function getNextDeadline(
+  conf: Conference,
+  pivot: Date,
+): DeadlineOccurrence | null {
+  return getDeadlineOccurrences(conf, pivot)[0] ?? null;
+}
+
+export function formatCountdown(target: Date, now: Date): string {
+  const diff = target.getTime() - now.getTime();
+  if (diff <= 0) {
+    return "Closed";
+  }
+
+  const totalSeconds = Math.floor(diff / 1000);
+  const days = Math.floor(totalSeconds / (24 * 60 * 60));
+  const hours = Math.floor((totalSeconds % (24 * 60 * 60)) / (60 * 60));
+  const minutes = Math.floor((totalSeconds % (60 * 60)) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) {
+    return `${days}d ${hours}h ${minutes}m`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes}m ${seconds}s`;
+  }
+
+  return `${minutes}m ${seconds}s`;
+}
+
+export interface UpcomingDeadline extends DeadlineOccurrence {
+  conf: Conference;
+}
+
+/** Each venue's next deadline, soonest first. */
+export function getUpcomingDeadlines(
+  entries: Conference[],
+  pivot: Date,
+  limit?: number,
+): UpcomingDeadline[] {
+  return entries
+    .flatMap((conf) => {
+      const next = getNextDeadline(conf, pivot);
+      return next ? [{ conf, ...next }] : [];
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .slice(0, limit);
+}
@@ -0,0 +1,36 @@
+import { isValidTimeZone } from "@/lib/deadlines";
+
+const TIME_ZONE_STORAGE_KEY = "conferenceddl:display-time-zone";
+
+/** Zone the server renders times in, before the browser's choice is known. */
+export const SERVER_DISPLAY_ZONE = "UTC";
+
+const listeners = new Set<() => void>();
+
+function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone ?? "UTC";
+}
+
+export function subscribeToDisplayZone(listener: () => void): () => void {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+/**
+ * The zone chosen under "Show times in", or the browser's own. A stored zone
+ * this browser does not know, e.g. hand-edited or from a newer tz database,
+ * is ignored rather than breaking every time on the page.
+ */
+export function readDisplayZone(): string {
+  const stored = window.localStorage.getItem(TIME_ZONE_STORAGE_KEY);
+  return stored && isValidTimeZone(stored) ? stored : getBrowserTimeZone();
+}
+
+export function storeDisplayZone(zone: string) {
+  window.localStorage.setItem(TIME_ZONE_STORAGE_KEY, zone);
+  listeners.forEach((listener) => listener());
+}
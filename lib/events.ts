@@ -0,0 +1,35 @@
+import type { DateRange } from "@/data/conferences";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type EventStatus = "upcoming" | "ongoing" | "ended";
+
+// Event dates are calendar days without a time zone, so they are compared
+// against today's UTC date rather than an instant.
+function dayNumber(value: string): number {
+  return Date.parse(`${value}T00:00:00Z`) / DAY_MS;
+}
+
+function todayNumber(now: Date): number {
+  return Math.floor(now.getTime() / DAY_MS);
+}
+
+export function getEventStatus(dates: DateRange, now: Date): EventStatus {
+  const today = todayNumber(now);
+  if (today < dayNumber(dates.start)) return "upcoming";
+  if (today > dayNumber(dates.end)) return "ended";
+  return "ongoing";
+}
+
+/** Whole days until the first conference day; 0 or less once it has begun. */
+export function getDaysUntilEvent(dates: DateRange, now: Date): number {
+  return dayNumber(dates.start) - todayNumber(now);
+}
+
+export function formatEventCountdown(dates: DateRange, now: Date): string {
+  const status = getEventStatus(dates, now);
+  if (status === "ongoing") return "Happening now";
+  if (status === "ended") return "Ended";
+  const days = getDaysUntilEvent(dates, now);
+  return days === 1 ? "Starts tomorrow" : `Starts in ${days} days`;
+}
@@ -0,0 +1,74 @@
+import {
+  type ChangeLogEntry,
+  changeTypeLabels,
+  type Conference,
+} from "@/data/conferences";
+
+export interface FeedOptions {
+  /** Absolute origin used for links and ids, e.g. https://conf-ddl.vercel.app */
+  siteUrl: string;
+  title: string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function toTimestamp(date: string): string {
+  return `${date}T00:00:00Z`;
+}
+
+function entryId(siteUrl: string, change: ChangeLogEntry, index: number): string {
+  return `tag:${new URL(siteUrl).hostname},${change.date}:${change.conference}/${change.type}/${index}`;
+}
+
+/** Builds an Atom feed from change log entries ordered newest first. */
+export function buildAtomFeed(
+  changes: ChangeLogEntry[],
+  conferences: Conference[],
+  options: FeedOptions,
+): string {
+  const { siteUrl, title } = options;
+  const updated = changes[0] ? toTimestamp(changes[0].date) : new Date(0).toISOString();
+
+  const entries = changes.map((change, index) => {
+    const conf = conferences.find((entry) => entry.id === change.conference);
+    const link = `${siteUrl}/conferences/${change.conference}`;
+    const content = [
+      `${changeTypeLabels[change.type]} · ${conf?.name ?? change.conference}`,
+      change.summary,
+    ].join("\n");
+    return [
+      "  <entry>",
+      // Ids are positions in the change log file, which validation keeps oldest
+      // first, so appending a change never renumbers the ones before it.
+      `    <id>${escapeXml(entryId(siteUrl, change, changes.length - index))}</id>`,
+      `    <title>${escapeXml(change.summary)}</title>`,
+      `    <link href="${escapeXml(link)}"/>`,
+      `    <updated>${toTimestamp(change.date)}</updated>`,
+      `    <category term="${change.type}" label="${escapeXml(changeTypeLabels[change.type])}"/>`,
+      `    <content type="text">${escapeXml(content)}</content>`,
+      "  </entry>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(`${siteUrl}/`)}</id>`,
+    `  <title>${escapeXml(title)}</title>`,
+    `  <subtitle>New venues, moved deadlines and confirmed estimates.</subtitle>`,
+    `  <link rel="self" href="${escapeXml(`${siteUrl}/feed.xml`)}"/>`,
+    `  <link href="${escapeXml(`${siteUrl}/`)}"/>`,
+    `  <updated>${updated}</updated>`,
+    "  <author><name>ConferenceDDL</name></author>",
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
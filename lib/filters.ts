@@ -0,0 +1,121 @@
+import {
+  areaOrder,
+  type Conference,
+  type VenueType,
+} from "@/data/conferences";
+import { getNextDeadline } from "@/lib/deadlines";
+import { type Continent, getContinent, getCountryName } from "@/lib/geo";
+import { slugify } from "@/lib/slug";
+
+export type StatusFilter = "all" | "confirmed" | "estimated";
+export type ScheduleFilter = "all" | "dated" | "rolling";
+export type VenueTypeFilter = "all" | VenueType;
+
+export interface ConferenceFilters {
+  /** Free text matched against acronym, name, location and note */
+  query: string;
+  /** Areas to keep; empty keeps every area */
+  areas: string[];
+  /** Continents the next edition should take place on; empty keeps every venue */
+  continents: Continent[];
+  status: StatusFilter;
+  schedule: ScheduleFilter;
+  venueType: VenueTypeFilter;
+  /** Keep only venues whose next deadline closes within this many days */
+  withinDays: number | null;
+  /** Also list workshops and co-located events, not just main conferences */
+  workshops: boolean;
+}
+
+export const emptyFilters: ConferenceFilters = {
+  query: "",
+  areas: [],
+  continents: [],
+  status: "all",
+  schedule: "all",
+  venueType: "all",
+  withinDays: null,
+  workshops: false,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Maps `?area=` slugs back to `areaOrder` names, keeping unknown slugs apart. */
+export function resolveAreaSlugs(slugs: string[]): {
+  areas: string[];
+  unknown: string[];
+} {
+  const normalized = slugs.map(slugify);
+  return {
+    areas: areaOrder.filter((area) => normalized.includes(slugify(area))),
+    unknown: normalized.filter(
+      (slug) => !areaOrder.some((area) => slugify(area) === slug),
+    ),
+  };
+}
+
+export function hasActiveFilters(filters: ConferenceFilters): boolean {
+  return (
+    filters.query.trim() !== "" ||
+    filters.areas.length > 0 ||
+    filters.continents.length > 0 ||
+    filters.status !== "all" ||
+    filters.schedule !== "all" ||
+    filters.venueType !== "all" ||
+    filters.withinDays !== null ||
+    filters.workshops
+  );
+}
+
+function matchesQuery(conf: Conference, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return true;
+  const haystack = [
+    conf.acronym,
+    conf.name,
+    conf.location,
+    conf.place?.city,
+    conf.place && getCountryName(conf.place.country),
+    conf.note,
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
+export function matchesFilters(
+  conf: Conference,
+  filters: ConferenceFilters,
+  now: Date,
+): boolean {
+  if (conf.parent && !filters.workshops) return false;
+  if (!matchesQuery(conf, filters.query)) return false;
+  if (filters.areas.length && !filters.areas.includes(conf.area)) return false;
+  if (filters.continents.length) {
+    const continent = conf.place && getContinent(conf.place.country);
+    if (!continent || !filters.continents.includes(continent)) return false;
+  }
+  if (filters.schedule === "rolling" && !conf.isRolling) return false;
+  if (filters.schedule === "dated" && conf.isRolling) return false;
+  if (
+    filters.venueType !== "all" &&
+    (conf.type ?? "conference") !== filters.venueType
+  ) {
+    return false;
+  }
+
+  if (filters.status === "all" && filters.withinDays === null) return true;
+
+  const next = getNextDeadline(conf, now);
+  if (!next) return false;
+  if (filters.status === "confirmed" && next.estimated) return false;
+  if (filters.status === "estimated" && !next.estimated) return false;
+  if (
+    filters.withinDays !== null &&
+    next.date.getTime() - now.getTime() > filters.withinDays * DAY_MS
+  ) {
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,66 @@
+import type { Place } from "@/data/conferences";
+import { slugify } from "@/lib/slug";
+
+export const continents = [
+  "Africa",
+  "Asia",
+  "Europe",
+  "North America",
+  "Oceania",
+  "South America",
+] as const;
+export type Continent = (typeof continents)[number];
+
+// ISO 3166-1 alpha-2 codes. Transcontinental countries sit where their usual
+// conference cities are, e.g. Turkey in Europe.
+const continentCountries: Record<Continent, string> = {
+  Africa:
+    "DZ AO BJ BW BF BI CM CV CF TD KM CG CD CI DJ EG GQ ER SZ ET GA GM GH GN GW KE LS LR LY MG MW ML MR MU MA MZ NA NE NG RW ST SN SC SL SO ZA SS SD TZ TG TN UG ZM ZW",
+  Asia:
+    "AF AM AZ BH BD BT BN KH CN GE HK IN ID IR IQ IL JP JO KZ KW KG LA LB MO MY MV MN MM NP KP OM PK PS PH QA SA SG KR LK SY TW TJ TH TL TM AE UZ VN YE",
+  Europe:
+    "AL AD AT BY BE BA BG HR CY CZ DK EE FI FR DE GR HU IS IE IT XK LV LI LT LU MT MD MC ME NL MK NO PL PT RO RU SM RS SK SI ES SE CH TR UA GB VA",
+  "North America":
+    "AG BS BB BZ CA CR CU DM DO SV GD GT HT HN JM MX NI PA PR KN LC VC TT US",
+  Oceania: "AU FJ KI MH FM NR NZ PW PG WS SB TO TV VU",
+  "South America": "AR BO BR CL CO EC GY PY PE SR UY VE",
+};
+
+const countryContinents = new Map<string, Continent>(
+  continents.flatMap((continent) =>
+    continentCountries[continent]
+      .split(" ")
+      .map((code): [string, Continent] => [code, continent]),
+  ),
+);
+
+export function getContinent(countryCode: string): Continent | undefined {
+  return countryContinents.get(countryCode);
+}
+
+const countryNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+export function getCountryName(countryCode: string): string {
+  return countryNames.of(countryCode) ?? countryCode;
+}
+
+/** "Seoul, South Korea" */
+export function formatPlace(place: Place): string {
+  return `${place.city}, ${getCountryName(place.country)}`;
+}
+
+/** Maps `?continent=` slugs back to `continents` names, keeping unknown slugs apart. */
+export function resolveContinentSlugs(slugs: string[]): {
+  continents: Continent[];
+  unknown: string[];
+} {
+  const normalized = slugs.map(slugify);
+  return {
+    continents: continents.filter((continent) =>
+      normalized.includes(slugify(continent)),
+    ),
+    unknown: normalized.filter(
+      (slug) => !continents.some((continent) => slugify(continent) === slug),
+    ),
+  };
+}
@@ -0,0 +1,123 @@
+import type {
+  Conference,
+  DateRange,
+  DatedDeadline,
+  Edition,
+} from "@/data/conferences";
+import { formatDeadlineLabel, parseDatedDeadline } from "@/lib/deadlines";
+
+export interface EditionSummary {
+  edition: Edition;
+  /** Main deadline of the edition: the full paper one when listed */
+  deadline: Date | null;
+  label: string | null;
+  /** Days the deadline moved against the same date in the previous edition */
+  shiftDays: number | null;
+  upcoming: boolean;
+}
+
+export interface DeadlineTrend {
+  /** Mean year-over-year shift in days; negative means earlier */
+  averageShiftDays: number;
+  /** Largest absolute year-over-year shift in days */
+  maxShiftDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function mainDeadline(edition: Edition): DatedDeadline | undefined {
+  return (
+    edition.deadlines.find((deadline) => deadline.kind === "paper") ??
+    edition.deadlines[0]
+  );
+}
+
+function shiftBetween(
+  previous: Date,
+  next: Date,
+  yearsApart: number,
+): number {
+  const anniversary = new Date(previous);
+  anniversary.setUTCFullYear(previous.getUTCFullYear() + yearsApart);
+  return Math.round((next.getTime() - anniversary.getTime()) / DAY_MS);
+}
+
+/** Editions ordered newest first, each with its shift against the one before. */
+export function getEditionHistory(
+  conf: Conference,
+  now: Date,
+): EditionSummary[] {
+  const ordered = [...(conf.editions ?? [])].sort((a, b) => a.year - b.year);
+  const summaries = ordered.map((edition) => {
+    const main = mainDeadline(edition);
+    const deadline = main ? parseDatedDeadline(main.at, main.timeZone) : null;
+    return {
+      edition,
+      deadline,
+      label: main && deadline ? formatDeadlineLabel(deadline, main.timeZone) : null,
+      shiftDays: null as number | null,
+      upcoming: deadline ? deadline.getTime() > now.getTime() : false,
+    };
+  });
+
+  summaries.forEach((summary, index) => {
+    const previous = summaries[index - 1];
+    if (!previous?.deadline || !summary.deadline) return;
+    summary.shiftDays = shiftBetween(
+      previous.deadline,
+      summary.deadline,
+      summary.edition.year - previous.edition.year,
+    );
+  });
+
+  return summaries.reverse();
+}
+
+export function getDeadlineTrend(history: EditionSummary[]): DeadlineTrend | null {
+  const shifts = history.flatMap((summary) =>
+    summary.shiftDays === null ? [] : [summary.shiftDays],
+  );
+  if (!shifts.length) return null;
+  return {
+    averageShiftDays:
+      Math.round((shifts.reduce((sum, shift) => sum + shift, 0) / shifts.length) * 10) / 10,
+    maxShiftDays: Math.max(...shifts.map(Math.abs)),
+  };
+}
+
+export function formatShift(days: number): string {
+  if (days === 0) return "same day";
+  const amount = Math.abs(days);
+  return `${amount} ${amount === 1 ? "day" : "days"} ${days < 0 ? "earlier" : "later"}`;
+}
+
+/** Acceptance rate of the latest edition that reported one. */
+export function getRecentAcceptanceRate(
+  conf: Conference,
+): { rate: number; year: number } | null {
+  const edition = [...(conf.editions ?? [])]
+    .sort((a, b) => b.year - a.year)
+    .find((entry) => entry.acceptanceRate !== undefined);
+  return edition?.acceptanceRate !== undefined
+    ? { rate: edition.acceptanceRate, year: edition.year }
+    : null;
+}
+
+export function formatAcceptanceRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+export function formatDateRange(range: DateRange): string {
+  const start = new Date(`${range.start}T00:00:00Z`);
+  const end = new Date(`${range.end}T00:00:00Z`);
+  const format = (date: Date, options: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat("en-US", { timeZone: "UTC", ...options }).format(date);
+
+  if (start.getUTCFullYear() !== end.getUTCFullYear()) {
+    return `${format(start, { month: "short", day: "numeric", year: "numeric" })} – ${format(end, { month: "short", day: "numeric", year: "numeric" })}`;
+  }
+  if (start.getUTCMonth() !== end.getUTCMonth()) {
+    return `${format(start, { month: "short", day: "numeric" })} – ${format(end, { month: "short", day: "numeric" })}, ${start.getUTCFullYear()}`;
+  }
+  return `${format(start, { month: "short", day: "numeric" })}–${end.getUTCDate()}, ${start.getUTCFullYear()}`;
+}
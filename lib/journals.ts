@@ -0,0 +1,18 @@
+import type { Conference } from "@/data/conferences";
+
+export function isJournal(conf: Conference): boolean {
+  return conf.type === "journal";
+}
+
+/** Conferences with a journal-first track, by journal id. */
+export function getJournalFirstHosts(
+  conferences: Conference[],
+): Map<string, Conference[]> {
+  const hosts = new Map<string, Conference[]>();
+  for (const conf of conferences) {
+    for (const track of conf.journalFirst ?? []) {
+      hosts.set(track.journal, [...(hosts.get(track.journal) ?? []), conf]);
+    }
+  }
+  return hosts;
+}
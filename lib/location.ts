@@ -0,0 +1,23 @@
+import type { Conference } from "@/data/conferences";
+import { formatPlace } from "@/lib/geo";
+
+export function getLocationHref(location?: string, override?: string): string | undefined {
+  if (override) return override;
+  if (!location) return undefined;
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
+    location,
+  )}`;
+}
+
+/** Structured place when known, otherwise the free-form `location`. */
+export function getLocationLabel(conf: Conference): string | undefined {
+  return conf.place ? formatPlace(conf.place) : conf.location;
+}
+
+export function getConferenceLocationHref(conf: Conference): string | undefined {
+  const coordinates = conf.place?.coordinates;
+  if (!conf.locationUrl && coordinates) {
+    return getLocationHref(`${coordinates.latitude},${coordinates.longitude}`);
+  }
+  return getLocationHref(getLocationLabel(conf), conf.locationUrl);
+}
@@ -0,0 +1,65 @@
+import type { Conference, Coordinates } from "@/data/conferences";
+import { type DeadlineOccurrence, getNextDeadline } from "@/lib/deadlines";
+import { formatPlace } from "@/lib/geo";
+import { slugify } from "@/lib/slug";
+
+export interface MapVenue {
+  conf: Conference;
+  next: DeadlineOccurrence | null;
+}
+
+export interface CityCluster {
+  /** City and country code, e.g. `seoul-KR` */
+  key: string;
+  label: string;
+  coordinates: Coordinates;
+  /** Soonest next deadline first */
+  venues: MapVenue[];
+}
+
+function nextTime(venue: MapVenue): number {
+  return venue.next?.date.getTime() ?? Number.POSITIVE_INFINITY;
+}
+
+function compareVenues(a: MapVenue, b: MapVenue): number {
+  return nextTime(a) - nextTime(b) || a.conf.acronym.localeCompare(b.conf.acronym);
+}
+
+/**
+ * Groups venues whose next edition shares a city. Venues without coordinates
+ * are returned separately so the map can say how many it leaves out.
+ */
+export function groupVenuesByCity(
+  conferences: Conference[],
+  now: Date,
+): { clusters: CityCluster[]; unplaced: Conference[] } {
+  const clusters = new Map<string, CityCluster>();
+  const unplaced: Conference[] = [];
+
+  for (const conf of conferences) {
+    const place = conf.place;
+    if (!place?.coordinates) {
+      unplaced.push(conf);
+      continue;
+    }
+    const key = `${slugify(place.city)}-${place.country}`;
+    const cluster = clusters.get(key) ?? {
+      key,
+      label: formatPlace(place),
+      coordinates: place.coordinates,
+      venues: [],
+    };
+    cluster.venues.push({ conf, next: getNextDeadline(conf, now) });
+    clusters.set(key, cluster);
+  }
+
+  return {
+    clusters: [...clusters.values()]
+      .map((cluster) => ({ ...cluster, venues: cluster.venues.sort(compareVenues) }))
+      .sort(
+        (a, b) =>
+          compareVenues(a.venues[0], b.venues[0]) || a.label.localeCompare(b.label),
+      ),
+    unplaced,
+  };
+}
@@ -0,0 +1,68 @@
+import { describeReminder, type ScheduledReminder } from "@/lib/reminders";
+import { registerServiceWorker } from "@/lib/service-worker";
+
+export type NotificationPermissionState = NotificationPermission | "unsupported";
+
+/** Message posted to the service worker; see public/sw.js. */
+export interface ReminderMessage {
+  type: "schedule-reminders";
+  reminders: Array<{ tag: string; title: string; body: string; url: string; at: number }>;
+}
+
+const listeners = new Set<() => void>();
+
+export function subscribeToNotificationPermission(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function readNotificationPermission(): NotificationPermissionState {
+  return "Notification" in window && "serviceWorker" in navigator
+    ? Notification.permission
+    : "unsupported";
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  if (readNotificationPermission() === "unsupported") return "unsupported";
+  const permission = await Notification.requestPermission();
+  listeners.forEach((listener) => listener());
+  return permission;
+}
+
+function toMessage(reminder: ScheduledReminder) {
+  return {
+    tag: reminder.key,
+    ...describeReminder(reminder),
+    url: `/conferences/${reminder.venue.id}`,
+    at: reminder.at.getTime(),
+  };
+}
+
+/** Shows reminders through the service worker so they also appear for background tabs. */
+export async function showReminderNotifications(reminders: ScheduledReminder[]) {
+  if (!reminders.length || readNotificationPermission() !== "granted") return;
+  const registration = await registerServiceWorker();
+  await Promise.all(
+    reminders.map((reminder) => {
+      const { tag, title, body, url } = toMessage(reminder);
+      return registration?.showNotification(title, { tag, body, data: { url } });
+    }),
+  );
+}
+
+/**
+ * Hands future reminders to the service worker, which schedules them with
+ * notification triggers where the browser supports those so they fire even
+ * after the tab is closed.
+ */
+export async function scheduleReminderNotifications(reminders: ScheduledReminder[]) {
+  if (readNotificationPermission() !== "granted") return;
+  const registration = await registerServiceWorker();
+  const message: ReminderMessage = {
+    type: "schedule-reminders",
+    reminders: reminders.map(toMessage),
+  };
+  (registration?.active ?? navigator.serviceWorker.controller)?.postMessage(message);
+}
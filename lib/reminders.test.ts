@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { Conference } from "@/data/conferences";
+import {
+  getDueReminders,
+  getPassedReminderKeys,
+  getScheduledReminders,
+  toReminderVenue,
+} from "@/lib/reminders";
+
+const cvpr: Conference = {
+  id: "cvpr",
+  name: "Conference on Computer Vision and Pattern Recognition",
+  acronym: "CVPR",
+  area: "Computer Vision",
+  website: "https://cvpr.thecvf.com/",
+  milestones: [
+    { kind: "paper", month: 11, day: 14, hour: 23, minute: 59, timeZone: "UTC" },
+  ],
+};
+
+// Two days before the Nov 14 deadline.
+const enabledAt = new Date("2026-11-12T23:59:00Z");
+
+const venue = toReminderVenue(cvpr, enabledAt);
+
+function due(offsets: Array<"7d" | "24h" | "1h">, sent: string[], now: Date) {
+  return getDueReminders(
+    getScheduledReminders([venue], { cvpr: offsets }, now),
+    sent,
+    now,
+  ).due.map((reminder) => reminder.offset);
+}
+
+describe("getPassedReminderKeys", () => {
+  it("keeps a reminder enabled after its time from firing", () => {
+    const sent = getPassedReminderKeys(venue, ["7d"], enabledAt);
+    assert.deepEqual(due(["7d"], sent, enabledAt), []);
+  });
+
+  it("leaves reminders still ahead to fire on time", () => {
+    const sent = getPassedReminderKeys(venue, ["7d", "24h"], enabledAt);
+    assert.deepEqual(due(["7d", "24h"], sent, enabledAt), []);
+    assert.deepEqual(
+      due(["7d", "24h"], sent, new Date("2026-11-13T23:59:00Z")),
+      ["24h"],
+    );
+  });
+
+  it("returns nothing when every reminder is still ahead", () => {
+    assert.deepEqual(
+      getPassedReminderKeys(venue, ["7d"], new Date("2026-11-01T00:00:00Z")),
+      [],
+    );
+  });
+});
+
+describe("getScheduledReminders", () => {
+  it("leaves out deadlines that closed after the venue was read", () => {
+    assert.deepEqual(
+      getScheduledReminders(
+        [venue],
+        { cvpr: ["1h"] },
+        new Date("2026-11-15T00:00:00Z"),
+      ),
+      [],
+    );
+  });
+});
+
+describe("getDueReminders", () => {
+  it("delivers only the shortest overdue lead time for a deadline", () => {
+    const { due, skipped } = getDueReminders(
+      getScheduledReminders([venue], { cvpr: ["7d", "24h", "1h"] }, enabledAt),
+      [],
+      new Date("2026-11-14T23:30:00Z"),
+    );
+    assert.deepEqual(
+      due.map((reminder) => reminder.offset),
+      ["1h"],
+    );
+    assert.deepEqual(
+      skipped.map((reminder) => reminder.offset),
+      ["7d", "24h"],
+    );
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  type Conference,
+  type MilestoneKind,
+  milestoneLabels,
+} from "@/data/conferences";
+import { getDeadlineOccurrences, getOccurrenceKey } from "@/lib/deadlines";
+
+const REMINDERS_STORAGE_KEY = "conferenceddl:reminders";
+const SENT_STORAGE_KEY = "conferenceddl:reminders-sent";
+
+export type ReminderOffset = "7d" | "24h" | "1h";
+
+/** Offsets from longest to shortest lead time. */
+export const reminderOffsets: Record<ReminderOffset, { label: string; ms: number }> = {
+  "7d": { label: "7 days before", ms: 7 * 24 * 60 * 60 * 1000 },
+  "24h": { label: "24 hours before", ms: 24 * 60 * 60 * 1000 },
+  "1h": { label: "1 hour before", ms: 60 * 60 * 1000 },
+};
+
+const OFFSET_KEYS = Object.keys(reminderOffsets) as ReminderOffset[];
+
+/** Venue id to the offsets it should remind at. */
+export type ReminderSettings = Record<string, ReminderOffset[]>;
+
+/** An open deadline, reduced to what reminders show. */
+export interface ReminderDeadline {
+  /** Milestone and special issue; see `getOccurrenceKey` */
+  key: string;
+  kind: MilestoneKind;
+  specialIssue?: string;
+  /** Milliseconds since the epoch */
+  at: number;
+  /** The deadline in the venue's own time zone */
+  label: string;
+  estimated: boolean;
+}
+
+/**
+ * What the browser needs of a venue to remind about it, so client
+ * components are not handed the whole venue.
+ */
+export interface ReminderVenue {
+  id: string;
+  acronym: string;
+  deadlines: ReminderDeadline[];
+}
+
+export interface ScheduledReminder {
+  /** Stable per venue, milestone, deadline and offset; doubles as the notification tag */
+  key: string;
+  venue: ReminderVenue;
+  deadline: ReminderDeadline;
+  offset: ReminderOffset;
+  at: Date;
+}
+
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToReminders(listener: () => void): () => void {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+/** Raw stored value; parse with `parseReminders` so snapshots stay stable. */
+export function readRemindersSnapshot(): string {
+  return window.localStorage.getItem(REMINDERS_STORAGE_KEY) ?? "{}";
+}
+
+export function parseReminders(snapshot: string): ReminderSettings {
+  try {
+    const parsed: unknown = JSON.parse(snapshot);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed)
+        .map(([id, offsets]): [string, ReminderOffset[]] => [
+          id,
+          Array.isArray(offsets)
+            ? OFFSET_KEYS.filter((offset) => offsets.includes(offset))
+            : [],
+        ])
+        .filter(([, offsets]) => offsets.length > 0),
+    );
+  } catch {
+    return {};
+  }
+}
+
+export function storeReminders(settings: ReminderSettings) {
+  window.localStorage.setItem(REMINDERS_STORAGE_KEY, JSON.stringify(settings));
+  notify();
+}
+
+/**
+ * Turns one offset on or off for a venue. Turning it on counts reminders
+ * whose time already passed as sent, so enabling "7 days before" two days
+ * ahead of a deadline does not announce a week left.
+ */
+export function toggleReminder(
+  venue: ReminderVenue,
+  offset: ReminderOffset,
+  now: Date,
+) {
+  const settings = parseReminders(readRemindersSnapshot());
+  const current = settings[venue.id] ?? [];
+  const enabling = !current.includes(offset);
+  const next = enabling
+    ? OFFSET_KEYS.filter((entry) => entry === offset || current.includes(entry))
+    : current.filter((entry) => entry !== offset);
+  if (enabling) {
+    storeSentReminders(getPassedReminderKeys(venue, [offset], now), now);
+  }
+  const rest = { ...settings };
+  delete rest[venue.id];
+  storeReminders(next.length ? { ...rest, [venue.id]: next } : rest);
+}
+
+/** The venue's deadlines still open at `now`, for the browser to remind about. */
+export function toReminderVenue(conf: Conference, now: Date): ReminderVenue {
+  return {
+    id: conf.id,
+    acronym: conf.acronym,
+    deadlines: getDeadlineOccurrences(conf, now).map((occurrence) => ({
+      key: getOccurrenceKey(occurrence),
+      kind: occurrence.kind,
+      specialIssue: occurrence.specialIssue?.title,
+      at: occurrence.date.getTime(),
+      label: occurrence.label,
+      estimated: occurrence.estimated,
+    })),
+  };
+}
+
+function reminderKey(
+  venue: ReminderVenue,
+  deadline: ReminderDeadline,
+  offset: ReminderOffset,
+): string {
+  return `${venue.id}:${deadline.key}:${deadline.at}:${offset}`;
+}
+
+/**
+ * Every reminder for a deadline still open at `now`, including ones whose
+ * time has come.
+ */
+export function getScheduledReminders(
+  venues: ReminderVenue[],
+  settings: ReminderSettings,
+  now: Date,
+): ScheduledReminder[] {
+  return venues
+    .filter((venue) => settings[venue.id]?.length)
+    .flatMap((venue) =>
+      venue.deadlines
+        .filter((deadline) => deadline.at > now.getTime())
+        .flatMap((deadline) =>
+          (settings[venue.id] ?? []).map((offset) => ({
+            key: reminderKey(venue, deadline, offset),
+            venue,
+            deadline,
+            offset,
+            at: new Date(deadline.at - reminderOffsets[offset].ms),
+          })),
+        ),
+    )
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/** Keys of the venue's reminders at `offsets` whose time came before `now`. */
+export function getPassedReminderKeys(
+  venue: ReminderVenue,
+  offsets: ReminderOffset[],
+  now: Date,
+): string[] {
+  return getScheduledReminders([venue], { [venue.id]: offsets }, now)
+    .filter((reminder) => reminder.at <= now)
+    .map((reminder) => reminder.key);
+}
+
+/**
+ * Reminders to deliver now. When several are overdue for the same deadline,
+ * e.g. after the laptop was asleep, only the shortest lead time is returned;
+ * `skipped` lists the rest so they can be marked as sent too.
+ */
+export function getDueReminders(
+  scheduled: ScheduledReminder[],
+  sent: string[],
+  now: Date,
+): { due: ScheduledReminder[]; skipped: ScheduledReminder[] } {
+  const pending = scheduled.filter(
+    (reminder) => reminder.at <= now && !sent.includes(reminder.key),
+  );
+  const latest = new Map<string, ScheduledReminder>();
+  for (const reminder of pending) {
+    const deadline = `${reminder.venue.id}:${reminder.deadline.key}`;
+    const current = latest.get(deadline);
+    if (!current || reminder.at > current.at) latest.set(deadline, reminder);
+  }
+  const due = [...latest.values()];
+  return { due, skipped: pending.filter((reminder) => !due.includes(reminder)) };
+}
+
+export function readSentReminders(): string[] {
+  try {
+    const parsed: unknown = JSON.parse(
+      window.localStorage.getItem(SENT_STORAGE_KEY) ?? "[]",
+    );
+    return Array.isArray(parsed)
+      ? parsed.filter((key): key is string => typeof key === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Records delivered reminders and drops keys for deadlines that have passed. */
+export function storeSentReminders(keys: string[], now: Date) {
+  const kept = [...new Set([...readSentReminders(), ...keys])].filter(
+    (key) => Number(key.split(":")[2]) > now.getTime(),
+  );
+  window.localStorage.setItem(SENT_STORAGE_KEY, JSON.stringify(kept));
+}
+
+export function describeReminder(reminder: ScheduledReminder): {
+  title: string;
+  body: string;
+} {
+  const { venue, deadline, offset } = reminder;
+  const lead = reminderOffsets[offset].label.replace(" before", "");
+  return {
+    title: `${venue.acronym} ${milestoneLabels[deadline.kind].toLowerCase()} deadline in ${lead}`,
+    body: `${deadline.specialIssue ? `${deadline.specialIssue} · ` : ""}${deadline.label}${deadline.estimated ? " (estimated)" : ""}`,
+  };
+}
@@ -0,0 +1,272 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  formatValidationReport,
+  validateChangeLog,
+  validateConferences,
+} from "@/lib/schema";
+
+function venue(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "cvpr",
+    name: "Conference on Computer Vision and Pattern Recognition",
+    acronym: "CVPR",
+    area: "Computer Vision",
+    website: "https://cvpr.thecvf.com/",
+    milestones: [
+      { kind: "paper", month: 11, day: 14, hour: 23, minute: 59, timeZone: "AoE" },
+    ],
+    ...overrides,
+  };
+}
+
+function milestone(overrides: Record<string, unknown>) {
+  return {
+    kind: "paper",
+    month: 11,
+    day: 14,
+    hour: 23,
+    minute: 59,
+    timeZone: "AoE",
+    ...overrides,
+  };
+}
+
+const journal = {
+  id: "tmlr",
+  name: "Transactions on Machine Learning Research",
+  acronym: "TMLR",
+  area: "Machine Learning",
+  type: "journal",
+  website: "https://jmlr.org/tmlr/",
+  isRolling: true,
+};
+
+describe("validateConferences", () => {
+  it("accepts a valid venue", () => {
+    assert.deepEqual(validateConferences([venue()]), []);
+  });
+
+  it("rejects month 13", () => {
+    const issues = validateConferences([
+      venue({ milestones: [milestone({ month: 13 })] }),
+    ]);
+    assert.deepEqual(
+      issues.map(({ entry, path }) => ({ entry, path })),
+      [{ entry: "cvpr", path: "milestones.0.month" }],
+    );
+  });
+
+  it("rejects April 31", () => {
+    const issues = validateConferences([
+      venue({ milestones: [milestone({ month: 4, day: 31 })] }),
+    ]);
+    assert.deepEqual(issues, [
+      {
+        entry: "cvpr",
+        path: "milestones.0.day",
+        message: "Day 31 does not exist in month 4",
+      },
+    ]);
+  });
+
+  it("allows Feb 29", () => {
+    const issues = validateConferences([
+      venue({ milestones: [milestone({ month: 2, day: 29 })] }),
+    ]);
+    assert.deepEqual(issues, []);
+  });
+
+  it("rejects Apr 31 in a dated edition deadline", () => {
+    const issues = validateConferences([
+      venue({
+        milestones: undefined,
+        editions: [
+          {
+            year: 2026,
+            source: "https://cvpr.thecvf.com/",
+            deadlines: [{ kind: "paper", at: "2026-04-31T23:59", timeZone: "AoE" }],
+          },
+        ],
+      }),
+    ]);
+    assert.deepEqual(
+      issues.map((issue) => issue.path),
+      ["editions.0.deadlines.0.at"],
+    );
+  });
+
+  it("rejects an unknown time zone", () => {
+    const issues = validateConferences([
+      venue({ milestones: [milestone({ timeZone: "Mars/Olympus_Mons" })] }),
+    ]);
+    assert.equal(issues.length, 1);
+    assert.equal(issues[0].path, "milestones.0.timeZone");
+    assert.match(issues[0].message, /Unknown time zone/);
+  });
+
+  it("reports a duplicate id once, with the number of entries", () => {
+    const issues = validateConferences([venue(), venue(), venue()]);
+    assert.deepEqual(issues, [
+      { entry: "cvpr", path: "id", message: "Id is used by 3 entries" },
+    ]);
+  });
+
+  it("rejects an area missing from areaOrder", () => {
+    const issues = validateConferences([venue({ area: "Quantum Basket Weaving" })]);
+    assert.equal(issues.length, 1);
+    assert.equal(issues[0].path, "area");
+    assert.match(issues[0].message, /^Area must be one of: Machine Learning, /);
+  });
+
+  it("names entries without a usable id by position", () => {
+    const issues = validateConferences([venue(), venue({ id: 42 })]);
+    assert.deepEqual(
+      issues.map(({ entry, path }) => ({ entry, path })),
+      [{ entry: "#2", path: "id" }],
+    );
+  });
+
+  describe("parent", () => {
+    const workshop = venue({ id: "cvpr-wad", acronym: "WAD", parent: "cvpr" });
+
+    it("accepts a workshop of a listed conference", () => {
+      assert.deepEqual(validateConferences([venue(), workshop]), []);
+    });
+
+    it("rejects a parent that does not exist", () => {
+      assert.deepEqual(validateConferences([workshop]), [
+        { entry: "cvpr-wad", path: "parent", message: 'No venue with id "cvpr"' },
+      ]);
+    });
+
+    it("rejects a workshop of a workshop", () => {
+      const nested = venue({ id: "cvpr-wad-demo", parent: "cvpr-wad" });
+      assert.deepEqual(validateConferences([venue(), workshop, nested]), [
+        {
+          entry: "cvpr-wad-demo",
+          path: "parent",
+          message: '"cvpr-wad" is itself a workshop; point at its parent conference',
+        },
+      ]);
+    });
+
+    it("rejects a venue that is its own parent, once", () => {
+      assert.deepEqual(validateConferences([venue({ parent: "cvpr" })]), [
+        { entry: "cvpr", path: "parent", message: "A venue cannot be its own parent" },
+      ]);
+    });
+  });
+
+  describe("journalFirst", () => {
+    const track = { journal: "tmlr", source: "https://iclr.cc/" };
+
+    it("accepts a track that names a journal", () => {
+      assert.deepEqual(
+        validateConferences([venue({ journalFirst: [track] }), journal]),
+        [],
+      );
+    });
+
+    it("rejects a track that names no venue", () => {
+      assert.deepEqual(validateConferences([venue({ journalFirst: [track] })]), [
+        {
+          entry: "cvpr",
+          path: "journalFirst.0.journal",
+          message: 'No journal with id "tmlr"',
+        },
+      ]);
+    });
+
+    it("rejects a track that names a conference", () => {
+      const other = venue({ id: "iccv", acronym: "ICCV" });
+      const issues = validateConferences([
+        venue({ journalFirst: [{ ...track, journal: "iccv" }] }),
+        other,
+      ]);
+      assert.deepEqual(
+        issues.map(({ entry, path }) => ({ entry, path })),
+        [{ entry: "cvpr", path: "journalFirst.0.journal" }],
+      );
+    });
+  });
+});
+
+describe("validateChangeLog", () => {
+  const change = {
+    date: "2026-10-19",
+    type: "added",
+    conference: "cvpr",
+    summary: "Added CVPR",
+  };
+
+  it("accepts entries for known venues", () => {
+    assert.deepEqual(validateChangeLog([change], ["cvpr"]), []);
+  });
+
+  it("rejects an unknown venue", () => {
+    assert.deepEqual(validateChangeLog([change], ["iccv"]), [
+      { entry: "changelog #1", path: "conference", message: 'No venue with id "cvpr"' },
+    ]);
+  });
+
+  it("rejects a date that is not on the calendar", () => {
+    const issues = validateChangeLog(
+      [change, { ...change, date: "2026-13-01" }],
+      ["cvpr"],
+    );
+    assert.deepEqual(
+      issues.map(({ entry, path }) => ({ entry, path })),
+      [{ entry: "changelog #2", path: "date" }],
+    );
+  });
+
+  it("rejects an entry dated before the one above it", () => {
+    const issues = validateChangeLog(
+      [change, { ...change, date: "2026-10-20" }, { ...change, date: "2026-10-01" }],
+      ["cvpr"],
+    );
+    assert.deepEqual(
+      issues.map(({ entry, path }) => ({ entry, path })),
+      [{ entry: "changelog #3", path: "date" }],
+    );
+  });
+
+  it("allows several entries on the same day", () => {
+    assert.deepEqual(validateChangeLog([change, change], ["cvpr"]), []);
+  });
+
+  it("rejects an unknown change type", () => {
+    const issues = validateChangeLog([{ ...change, type: "removed" }], ["cvpr"]);
+    assert.deepEqual(
+      issues.map((issue) => issue.path),
+      ["type"],
+    );
+  });
+});
+
+describe("formatValidationReport", () => {
+  it("groups issues by entry, in first-seen order", () => {
+    const report = formatValidationReport([
+      { entry: "cvpr", path: "milestones.0.day", message: "Day 31 does not exist in month 4" },
+      { entry: "#2", path: "", message: "Expected object" },
+      { entry: "cvpr", path: "area", message: "Area must be one of: …" },
+    ]);
+    assert.equal(
+      report,
+      [
+        "cvpr",
+        "  - milestones.0.day: Day 31 does not exist in month 4",
+        "  - area: Area must be one of: …",
+        "",
+        "#2",
+        "  - (entry): Expected object",
+      ].join("\n"),
+    );
+  });
+
+  it("is empty without issues", () => {
+    assert.equal(formatValidationReport([]), "");
+  });
+});
@@ -0,0 +1,388 @@
+import { z } from "zod";
+
+import {
+  areaOrder,
+  ccfRanks,
+  type ChangeLogEntry,
+  type ChangeType,
+  changeTypeLabels,
+  type Conference,
+  coreRanks,
+  type MilestoneKind,
+  milestoneLabels,
+  type ReviewModel,
+  reviewModelLabels,
+  type ReviewPlatform,
+  reviewPlatformLabels,
+  type VenueType,
+  venueTypeLabels,
+} from "@/data/conferences";
+import { DATED_DEADLINE_PATTERN, isValidTimeZone } from "@/lib/deadlines";
+import { getContinent } from "@/lib/geo";
+
+export interface ValidationIssue {
+  /** Conference id, or its position when the id itself is unusable */
+  entry: string;
+  /** Dotted path inside the entry, e.g. `milestones.0.day` */
+  path: string;
+  message: string;
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Validated against a leap year so Feb 29 deadlines stay allowed.
+function daysInMonth(month: number, year = 2024): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function isCalendarDate(year: number, month: number, day: number): boolean {
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(month, year);
+}
+
+function findDuplicates(values: Array<string | number>): Array<string | number> {
+  return values.filter((value, index) => values.indexOf(value) !== index);
+}
+
+// Special issues carry their own deadlines, so milestones and editions keep to
+// the stages of a review cycle.
+const milestoneKindSchema = z.enum(
+  (Object.keys(milestoneLabels) as MilestoneKind[]).filter(
+    (kind) => kind !== "special-issue",
+  ) as [MilestoneKind, ...MilestoneKind[]],
+);
+
+const idSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "Use lowercase letters, digits and dashes");
+
+const timeZoneSchema = z.string().refine(isValidTimeZone, {
+  message: 'Unknown time zone; use an IANA name such as "America/Los_Angeles" or "AoE"',
+});
+
+const dateSchema = z.string().refine(
+  (value) => {
+    const match = DATE_PATTERN.exec(value);
+    if (!match) return false;
+    const [, year, month, day] = match.map(Number);
+    return isCalendarDate(year, month, day);
+  },
+  { message: "Expected a real calendar date formatted as YYYY-MM-DD" },
+);
+
+const dateRangeSchema = z
+  .strictObject({ start: dateSchema, end: dateSchema })
+  .refine((range) => range.start <= range.end, {
+    message: "Conference dates end before they start",
+  });
+
+const placeSchema = z.strictObject({
+  city: z.string().min(1),
+  country: z.string().refine((code) => getContinent(code) !== undefined, {
+    message: 'Use an upper-case ISO 3166-1 alpha-2 country code such as "KR"',
+  }),
+  coordinates: z
+    .strictObject({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+    })
+    .optional(),
+});
+
+const milestoneSchema = z
+  .strictObject({
+    kind: milestoneKindSchema,
+    month: z.number().int().min(1).max(12),
+    day: z.number().int().min(1).max(31),
+    hour: z.number().int().min(0).max(23),
+    minute: z.number().int().min(0).max(59),
+    timeZone: timeZoneSchema,
+    estimated: z.boolean().optional(),
+  })
+  .superRefine((milestone, ctx) => {
+    if (milestone.day > daysInMonth(milestone.month)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["day"],
+        message: `Day ${milestone.day} does not exist in month ${milestone.month}`,
+      });
+    }
+  });
+
+const wallClockSchema = z.string().refine(
+  (value) => {
+    const match = DATED_DEADLINE_PATTERN.exec(value);
+    if (!match) return false;
+    const [, year, month, day, hour, minute] = match.map(Number);
+    return isCalendarDate(year, month, day) && hour <= 23 && minute <= 59;
+  },
+  { message: "Expected a real wall-clock time formatted as YYYY-MM-DDTHH:mm" },
+);
+
+const datedDeadlineSchema = z.strictObject({
+  kind: milestoneKindSchema,
+  at: wallClockSchema,
+  timeZone: timeZoneSchema,
+});
+
+const specialIssueSchema = z.strictObject({
+  id: idSchema,
+  title: z.string().min(1),
+  at: wallClockSchema,
+  timeZone: timeZoneSchema,
+  website: z.url(),
+});
+
+const turnaroundSchema = z.strictObject({
+  firstDecisionDays: z.number().int().positive(),
+  acceptanceDays: z.number().int().positive().optional(),
+  source: z.url(),
+});
+
+const journalFirstSchema = z.strictObject({
+  journal: idSchema,
+  source: z.url(),
+});
+
+const editionSchema = z
+  .strictObject({
+    year: z.number().int().min(1900).max(2100),
+    deadlines: z.array(datedDeadlineSchema).min(1),
+    source: z.url(),
+    dates: dateRangeSchema.optional(),
+    location: z.string().min(1).optional(),
+    acceptanceRate: z.number().gt(0).max(1).optional(),
+  })
+  .superRefine((edition, ctx) => {
+    for (const kind of findDuplicates(edition.deadlines.map((d) => d.kind))) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["deadlines"],
+        message: `Deadline kind "${kind}" is listed more than once`,
+      });
+    }
+  });
+
+export const conferenceSchema = z
+  .strictObject({
+    id: idSchema,
+    name: z.string().min(1),
+    acronym: z.string().min(1),
+    area: z.enum(areaOrder, {
+      message: `Area must be one of: ${areaOrder.join(", ")}`,
+    }),
+    type: z
+      .enum(Object.keys(venueTypeLabels) as [VenueType, ...VenueType[]])
+      .optional(),
+    parent: idSchema.optional(),
+    location: z.string().min(1).optional(),
+    locationUrl: z.url().optional(),
+    eventDates: dateRangeSchema.optional(),
+    place: placeSchema.optional(),
+    website: z.url(),
+    submissionLink: z.url().optional(),
+    note: z.string().min(1).optional(),
+    isRolling: z.boolean().optional(),
+    coreRank: z.enum(coreRanks).optional(),
+    ccfRank: z.enum(ccfRanks).optional(),
+    pageLimit: z.number().int().positive().optional(),
+    reviewModel: z
+      .enum(Object.keys(reviewModelLabels) as [ReviewModel, ...ReviewModel[]])
+      .optional(),
+    reviewPlatform: z
+      .enum(Object.keys(reviewPlatformLabels) as [ReviewPlatform, ...ReviewPlatform[]])
+      .optional(),
+    hasRebuttal: z.boolean().optional(),
+    milestones: z.array(milestoneSchema).optional(),
+    editions: z.array(editionSchema).optional(),
+    turnaround: turnaroundSchema.optional(),
+    specialIssues: z.array(specialIssueSchema).optional(),
+    journalFirst: z.array(journalFirstSchema).optional(),
+  })
+  .superRefine((conf, ctx) => {
+    if (conf.parent === conf.id) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["parent"],
+        message: "A venue cannot be its own parent",
+      });
+    }
+    if (conf.isRolling && (conf.milestones?.length || conf.editions?.length)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["isRolling"],
+        message: "Rolling venues cannot also list deadlines",
+      });
+    }
+    for (const kind of findDuplicates((conf.milestones ?? []).map((m) => m.kind))) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["milestones"],
+        message: `Milestone kind "${kind}" is listed more than once`,
+      });
+    }
+    for (const year of findDuplicates((conf.editions ?? []).map((e) => e.year))) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["editions"],
+        message: `Edition ${year} is listed more than once`,
+      });
+    }
+
+    if (conf.type === "journal") {
+      if (conf.milestones?.length || conf.editions?.length) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["type"],
+          message: "Journals list special issues instead of milestones or editions",
+        });
+      }
+      if (conf.journalFirst) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["journalFirst"],
+          message: "Journal-first tracks belong on the conference that hosts them",
+        });
+      }
+    } else {
+      for (const field of ["turnaround", "specialIssues"] as const) {
+        if (conf[field]) {
+          ctx.addIssue({
+            code: "custom",
+            path: [field],
+            message: `Only journals have ${field}; set type: journal`,
+          });
+        }
+      }
+    }
+    for (const id of findDuplicates((conf.specialIssues ?? []).map((i) => i.id))) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["specialIssues"],
+        message: `Special issue "${id}" is listed more than once`,
+      });
+    }
+  }) satisfies z.ZodType<Conference>;
+
+export const changeLogEntrySchema = z.strictObject({
+  date: dateSchema,
+  type: z.enum(Object.keys(changeTypeLabels) as [ChangeType, ...ChangeType[]]),
+  conference: z.string().min(1),
+  summary: z.string().min(1),
+}) satisfies z.ZodType<ChangeLogEntry>;
+
+function entryName(value: unknown, index: number): string {
+  const id = (value as { id?: unknown } | null)?.id;
+  return typeof id === "string" && id ? id : `#${index + 1}`;
+}
+
+/** Checks every entry plus cross-entry rules such as unique ids. */
+export function validateConferences(entries: unknown[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = entries.flatMap((value, index) => {
+    const result = conferenceSchema.safeParse(value);
+    if (result.success) return [];
+    return result.error.issues.map((issue) => ({
+      entry: entryName(value, index),
+      path: issue.path.join("."),
+      message: issue.message,
+    }));
+  });
+
+  const ids = entries.map(entryName);
+  for (const id of new Set(findDuplicates(ids))) {
+    issues.push({
+      entry: String(id),
+      path: "id",
+      message: `Id is used by ${ids.filter((entry) => entry === id).length} entries`,
+    });
+  }
+
+  const journals = new Set(
+    entries
+      .filter((value) => (value as { type?: unknown } | null)?.type === "journal")
+      .map(entryName),
+  );
+  entries.forEach((value, index) => {
+    const tracks = (value as { journalFirst?: unknown } | null)?.journalFirst;
+    if (!Array.isArray(tracks)) return;
+    tracks.forEach((track, trackIndex) => {
+      const journal = (track as { journal?: unknown } | null)?.journal;
+      if (typeof journal !== "string" || journals.has(journal)) return;
+      issues.push({
+        entry: entryName(value, index),
+        path: `journalFirst.${trackIndex}.journal`,
+        message: `No journal with id "${journal}"`,
+      });
+    });
+  });
+
+  // Workshops hang off a main conference, one level deep.
+  entries.forEach((value, index) => {
+    const parent = (value as { parent?: unknown } | null)?.parent;
+    // Self-references are reported by the entry schema.
+    if (typeof parent !== "string" || parent === entryName(value, index)) return;
+    const parentEntry = entries.find((entry) => entryName(entry, 0) === parent);
+    const message = !parentEntry
+      ? `No venue with id "${parent}"`
+      : (parentEntry as { parent?: unknown }).parent !== undefined
+        ? `"${parent}" is itself a workshop; point at its parent conference`
+        : null;
+    if (message) {
+      issues.push({ entry: entryName(value, index), path: "parent", message });
+    }
+  });
+  return issues;
+}
+
+export function formatValidationReport(issues: ValidationIssue[]): string {
+  const byEntry = new Map<string, ValidationIssue[]>();
+  for (const issue of issues) {
+    byEntry.set(issue.entry, [...(byEntry.get(issue.entry) ?? []), issue]);
+  }
+  return [...byEntry.entries()]
+    .map(
+      ([entry, entryIssues]) =>
+        `${entry}\n${entryIssues
+          .map((issue) => `  - ${issue.path || "(entry)"}: ${issue.message}`)
+          .join("\n")}`,
+    )
+    .join("\n\n");
+}
+
+/**
+ * Checks change log entries, that each one points at a known venue and that
+ * the log runs oldest first, since feed ids count entries from the top.
+ */
+export function validateChangeLog(
+  entries: unknown[],
+  conferenceIds: string[],
+): ValidationIssue[] {
+  let previousDate: string | undefined;
+  return entries.flatMap((value, index) => {
+    const entry = `changelog #${index + 1}`;
+    const result = changeLogEntrySchema.safeParse(value);
+    if (!result.success) {
+      return result.error.issues.map((issue) => ({
+        entry,
+        path: issue.path.join("."),
+        message: issue.message,
+      }));
+    }
+    const issues: ValidationIssue[] = [];
+    if (!conferenceIds.includes(result.data.conference)) {
+      issues.push({
+        entry,
+        path: "conference",
+        message: `No venue with id "${result.data.conference}"`,
+      });
+    }
+    if (previousDate && result.data.date < previousDate) {
+      issues.push({
+        entry,
+        path: "date",
+        message: `Dated before the entry above it (${previousDate}); append new changes at the end with today's date`,
+      });
+    }
+    previousDate = result.data.date;
+    return issues;
+  });
+}
@@ -0,0 +1,13 @@
+export const SERVICE_WORKER_URL = "/sw.js";
+
+/**
+ * Registers public/sw.js, which caches the dashboard for offline use and
+ * delivers reminder notifications.
+ */
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  // Cached build assets would pin stale chunks while developing.
+  if (!("serviceWorker" in navigator) || process.env.NODE_ENV !== "production") {
+    return Promise.resolve(null);
+  }
+  return navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(() => null);
+}
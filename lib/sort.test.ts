@@ -0,0 +1,265 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { Conference } from "@/data/conferences";
+import type { SortState } from "@/lib/dashboard-state";
+import {
+  compareAreaLabels,
+  compareConferences,
+  defaultCompare,
+  groupByArea,
+  OTHER_AREA,
+  resolveAreaOrder,
+  sortConferences,
+} from "@/lib/sort";
+
+const now = new Date("2026-01-01T00:00:00Z");
+
+function venue(
+  id: string,
+  overrides: Partial<Conference> & { deadline?: [month: number, day: number] } = {},
+): Conference {
+  const { deadline, ...rest } = overrides;
+  return {
+    id,
+    name: id,
+    acronym: id.toUpperCase(),
+    area: "Machine Learning",
+    website: `https://${id}.example.org/`,
+    milestones: deadline
+      ? [
+          {
+            kind: "paper",
+            month: deadline[0],
+            day: deadline[1],
+            hour: 23,
+            minute: 59,
+            timeZone: "UTC",
+          },
+        ]
+      : undefined,
+    ...rest,
+  };
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(
+      (rest) => [item, ...rest],
+    ),
+  );
+}
+
+function ids(conferences: Conference[]): string[] {
+  return conferences.map((conf) => conf.id);
+}
+
+function sortBy(conferences: Conference[], sort: SortState): string[] {
+  return ids([...conferences].sort((a, b) => compareConferences(a, b, sort, now)));
+}
+
+describe("defaultCompare", () => {
+  it("puts the soonest deadline first and venues without one last", () => {
+    const sorted = [
+      venue("tba"),
+      venue("late", { deadline: [9, 1] }),
+      venue("soon", { deadline: [2, 1] }),
+    ].sort((a, b) => defaultCompare(a, b, now));
+    assert.deepEqual(ids(sorted), ["soon", "late", "tba"]);
+  });
+
+  it("breaks deadline ties by acronym, then by id", () => {
+    const sorted = [
+      venue("b", { deadline: [2, 1] }),
+      venue("a2", { acronym: "A", deadline: [2, 1] }),
+      venue("a1", { acronym: "A", deadline: [2, 1] }),
+    ].sort((a, b) => defaultCompare(a, b, now));
+    assert.deepEqual(ids(sorted), ["a1", "a2", "b"]);
+  });
+
+  it("orders venues without deadlines by acronym", () => {
+    const sorted = [venue("zeta"), venue("alpha")].sort((a, b) =>
+      defaultCompare(a, b, now),
+    );
+    assert.deepEqual(ids(sorted), ["alpha", "zeta"]);
+  });
+
+  it("gives the same order whatever the input order", () => {
+    const venues = [
+      venue("b", { deadline: [2, 1] }),
+      venue("a2", { acronym: "A", deadline: [2, 1] }),
+      venue("a1", { acronym: "A", deadline: [2, 1] }),
+      venue("tba"),
+    ];
+    const orders = new Set(
+      permutations(venues).map((order) =>
+        ids(order.sort((a, b) => defaultCompare(a, b, now))).join(","),
+      ),
+    );
+    assert.deepEqual([...orders], ["a1,a2,b,tba"]);
+  });
+});
+
+describe("compareConferences", () => {
+  const venues = [
+    venue("neurips", { deadline: [5, 15], area: "Machine Learning", coreRank: "A*" }),
+    venue("acl", { deadline: [2, 15], area: "Natural Language Processing" }),
+    venue("cvpr", { deadline: [11, 14], area: "Computer Vision", coreRank: "A*" }),
+    venue("wacv", { deadline: [7, 1], area: "Computer Vision", coreRank: "A" }),
+  ];
+
+  it("sorts by acronym in both directions", () => {
+    assert.deepEqual(sortBy(venues, { key: "acronym", direction: "asc" }), [
+      "acl",
+      "cvpr",
+      "neurips",
+      "wacv",
+    ]);
+    assert.deepEqual(sortBy(venues, { key: "acronym", direction: "desc" }), [
+      "wacv",
+      "neurips",
+      "cvpr",
+      "acl",
+    ]);
+  });
+
+  it("sorts by deadline in both directions", () => {
+    assert.deepEqual(sortBy(venues, { key: "deadline", direction: "asc" }), [
+      "acl",
+      "neurips",
+      "wacv",
+      "cvpr",
+    ]);
+    assert.deepEqual(sortBy(venues, { key: "countdown", direction: "desc" }), [
+      "cvpr",
+      "wacv",
+      "neurips",
+      "acl",
+    ]);
+  });
+
+  it("sorts by area in areaOrder, then by acronym", () => {
+    assert.deepEqual(sortBy(venues, { key: "area", direction: "asc" }), [
+      "neurips",
+      "cvpr",
+      "wacv",
+      "acl",
+    ]);
+    assert.deepEqual(sortBy(venues, { key: "area", direction: "desc" }), [
+      "acl",
+      "wacv",
+      "cvpr",
+      "neurips",
+    ]);
+  });
+
+  it("keeps venues without the data last in both directions", () => {
+    assert.deepEqual(sortBy(venues, { key: "rank", direction: "asc" }), [
+      "cvpr",
+      "neurips",
+      "wacv",
+      "acl",
+    ]);
+    assert.deepEqual(sortBy(venues, { key: "rank", direction: "desc" }), [
+      "wacv",
+      "neurips",
+      "cvpr",
+      "acl",
+    ]);
+  });
+
+  it("gives the same order whatever the input order", () => {
+    const tied = [
+      venue("b", { coreRank: "A" }),
+      venue("a2", { acronym: "A", coreRank: "A" }),
+      venue("a1", { acronym: "A", coreRank: "A" }),
+      venue("none"),
+    ];
+    for (const direction of ["asc", "desc"] as const) {
+      const orders = new Set(
+        permutations(tied).map((order) =>
+          sortBy(order, { key: "rank", direction }).join(","),
+        ),
+      );
+      assert.equal(orders.size, 1, `${direction}: ${[...orders].join(" | ")}`);
+    }
+  });
+
+  it("uses the default order for the default key", () => {
+    assert.deepEqual(sortBy(venues, { key: "default", direction: "desc" }), [
+      "acl",
+      "neurips",
+      "wacv",
+      "cvpr",
+    ]);
+  });
+});
+
+describe("sortConferences", () => {
+  const venues = [
+    venue("neurips", { deadline: [5, 15], coreRank: "A*" }),
+    venue("acl", { deadline: [2, 15], area: "Natural Language Processing" }),
+    venue("tba", { area: "Computer Vision" }),
+    venue("wacv", { deadline: [5, 15], area: "Computer Vision", coreRank: "A" }),
+  ];
+
+  it("orders like compareConferences for every key and direction", () => {
+    for (const key of ["default", "deadline", "countdown", "area", "rank"] as const) {
+      for (const direction of ["asc", "desc"] as const) {
+        assert.deepEqual(
+          ids(sortConferences(venues, { key, direction }, now)),
+          sortBy(venues, { key, direction }),
+          `${key} ${direction}`,
+        );
+      }
+    }
+  });
+
+  it("leaves the input untouched", () => {
+    sortConferences(venues, { key: "acronym", direction: "asc" }, now);
+    assert.deepEqual(ids(venues), ["neurips", "acl", "tba", "wacv"]);
+  });
+});
+
+describe("resolveAreaOrder", () => {
+  it("lists known areas first, then others as they appear, then OTHER_AREA", () => {
+    const grouped = groupByArea([
+      venue("misc", { area: OTHER_AREA }),
+      venue("quantum", { area: "Quantum Computing" }),
+      venue("cvpr", { area: "Computer Vision" }),
+      venue("bio", { area: "Bioinformatics" }),
+      venue("icml", { area: "Machine Learning" }),
+    ]);
+    assert.deepEqual(resolveAreaOrder(grouped), [
+      "Machine Learning",
+      "Computer Vision",
+      "Quantum Computing",
+      "Bioinformatics",
+      OTHER_AREA,
+    ]);
+  });
+
+  it("leaves out areas without venues", () => {
+    const grouped = { Robotics: [], "Computer Vision": [venue("cvpr")] };
+    assert.deepEqual(resolveAreaOrder(grouped), ["Computer Vision"]);
+  });
+});
+
+describe("compareAreaLabels", () => {
+  it("follows areaOrder for known areas", () => {
+    assert.ok(compareAreaLabels("Machine Learning", "Robotics") < 0);
+    assert.ok(compareAreaLabels("Robotics", "Computer Vision") > 0);
+    assert.equal(compareAreaLabels("Robotics", "Robotics"), 0);
+  });
+
+  it("puts OTHER_AREA after known areas", () => {
+    assert.ok(compareAreaLabels(OTHER_AREA, "Responsible AI & Society") > 0);
+  });
+
+  it("puts unknown and missing areas last, unknown ones alphabetically", () => {
+    assert.ok(compareAreaLabels("Quantum Computing", OTHER_AREA) > 0);
+    assert.ok(compareAreaLabels("Bioinformatics", "Quantum Computing") < 0);
+    assert.ok(compareAreaLabels(undefined, "Machine Learning") > 0);
+  });
+});
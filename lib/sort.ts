@@ -0,0 +1,237 @@
+import {
+  type Conference,
+  areaOrder,
+  ccfRanks,
+  coreRanks,
+  reviewModelLabels,
+  reviewPlatformLabels,
+} from "@/data/conferences";
+import type { SortKey, SortState } from "@/lib/dashboard-state";
+import { getNextDeadline } from "@/lib/deadlines";
+import { getRecentAcceptanceRate } from "@/lib/history";
+import { getLocationLabel } from "@/lib/location";
+
+export type ConferencesByArea = Record<string, Conference[]>;
+
+/** Section for venues without an area, always listed last. */
+export const OTHER_AREA = "Other Conferences";
+
+const areaPriority = new Map<string, number>(
+  [...areaOrder, OTHER_AREA].map((area, index) => [area, index]),
+);
+
+/** Acronym, then id, so every comparison has a single answer. */
+function compareAcronyms(a: Conference, b: Conference): number {
+  return a.acronym.localeCompare(b.acronym) || a.id.localeCompare(b.id);
+}
+
+/** A venue's next deadline as epoch milliseconds, or null when there is none. */
+type DeadlineLookup = (conf: Conference) => number | null;
+
+function lookUpNextDeadline(now: Date): DeadlineLookup {
+  return (conf) => getNextDeadline(conf, now)?.date.getTime() ?? null;
+}
+
+function compareNextDeadlines(
+  a: Conference,
+  b: Conference,
+  deadlineOf: DeadlineLookup,
+): number {
+  const nextA = deadlineOf(a);
+  const nextB = deadlineOf(b);
+
+  if (nextA !== null && nextB !== null) {
+    return nextA - nextB || compareAcronyms(a, b);
+  }
+
+  if (nextA !== null) return -1;
+  if (nextB !== null) return 1;
+  return compareAcronyms(a, b);
+}
+
+/** Soonest next deadline first, then venues without one. */
+export function defaultCompare(a: Conference, b: Conference, now: Date): number {
+  return compareNextDeadlines(a, b, lookUpNextDeadline(now));
+}
+
+/**
+ * Sort values for the venue metadata columns, most significant first.
+ * Null means the venue has no data for the column.
+ */
+function metadataSortValues(conf: Conference, key: SortKey): number[] | null {
+  switch (key) {
+    case "rank": {
+      if (!conf.coreRank && !conf.ccfRank) return null;
+      return [
+        conf.coreRank ? coreRanks.indexOf(conf.coreRank) : coreRanks.length,
+        conf.ccfRank ? ccfRanks.indexOf(conf.ccfRank) : ccfRanks.length,
+      ];
+    }
+    case "acceptance": {
+      const recent = getRecentAcceptanceRate(conf);
+      return recent ? [recent.rate] : null;
+    }
+    case "pages":
+      return conf.pageLimit === undefined ? null : [conf.pageLimit];
+    case "dates":
+      return conf.eventDates ? [Date.parse(conf.eventDates.start)] : null;
+    case "review": {
+      if (!conf.reviewModel && !conf.reviewPlatform && conf.hasRebuttal === undefined) {
+        return null;
+      }
+      const models = Object.keys(reviewModelLabels);
+      const platforms = Object.keys(reviewPlatformLabels);
+      return [
+        conf.reviewModel ? models.indexOf(conf.reviewModel) : models.length,
+        conf.reviewPlatform
+          ? platforms.indexOf(conf.reviewPlatform)
+          : platforms.length,
+        conf.hasRebuttal === undefined ? 2 : conf.hasRebuttal ? 0 : 1,
+      ];
+    }
+    default:
+      return null;
+  }
+}
+
+export function compareConferences(
+  a: Conference,
+  b: Conference,
+  sort: SortState,
+  now: Date,
+): number {
+  return compareBy(a, b, sort, lookUpNextDeadline(now));
+}
+
+/**
+ * A sorted copy of `conferences`. Each venue's next deadline is resolved once
+ * rather than in every comparison, which dominates with many venues.
+ */
+export function sortConferences(
+  conferences: Conference[],
+  sort: SortState,
+  now: Date,
+): Conference[] {
+  const deadlines = new Map<string, number | null>();
+  const lookUp = lookUpNextDeadline(now);
+  const deadlineOf: DeadlineLookup = (conf) => {
+    if (!deadlines.has(conf.id)) deadlines.set(conf.id, lookUp(conf));
+    return deadlines.get(conf.id) ?? null;
+  };
+  return [...conferences].sort((a, b) => compareBy(a, b, sort, deadlineOf));
+}
+
+function compareBy(
+  a: Conference,
+  b: Conference,
+  sort: SortState,
+  deadlineOf: DeadlineLookup,
+): number {
+  if (sort.key === "default") {
+    return compareNextDeadlines(a, b, deadlineOf);
+  }
+
+  const direction = sort.direction === "asc" ? 1 : -1;
+
+  switch (sort.key) {
+    case "area": {
+      const areaCompare = compareAreaLabels(
+        areaLabelFor(a),
+        areaLabelFor(b),
+      );
+      if (areaCompare !== 0) {
+        return direction * areaCompare;
+      }
+      return direction * compareAcronyms(a, b);
+    }
+    case "acronym": {
+      return direction * compareAcronyms(a, b);
+    }
+    case "location": {
+      const result =
+        (getLocationLabel(a) ?? "").localeCompare(getLocationLabel(b) ?? "") ||
+        compareAcronyms(a, b);
+      return direction * result;
+    }
+    case "deadline":
+    case "countdown": {
+      const valueA = deadlineOf(a) ?? Number.POSITIVE_INFINITY;
+      const valueB = deadlineOf(b) ?? Number.POSITIVE_INFINITY;
+
+      const aFinite = Number.isFinite(valueA);
+      const bFinite = Number.isFinite(valueB);
+
+      if (aFinite && bFinite) {
+        if (valueA === valueB) {
+          return direction * compareAcronyms(a, b);
+        }
+        return direction * (valueA < valueB ? -1 : 1);
+      }
+
+      if (aFinite && !bFinite) return direction * -1;
+      if (!aFinite && bFinite) return direction * 1;
+      return direction * compareAcronyms(a, b);
+    }
+    case "rank":
+    case "acceptance":
+    case "pages":
+    case "review":
+    case "dates": {
+      const valuesA = metadataSortValues(a, sort.key);
+      const valuesB = metadataSortValues(b, sort.key);
+
+      // Venues without the data stay at the bottom in either direction.
+      if (valuesA && !valuesB) return -1;
+      if (!valuesA && valuesB) return 1;
+      if (valuesA && valuesB) {
+        const index = valuesA.findIndex((value, i) => value !== valuesB[i]);
+        if (index !== -1) return direction * (valuesA[index] - valuesB[index]);
+      }
+      return direction * compareAcronyms(a, b);
+    }
+    default:
+      return compareNextDeadlines(a, b, deadlineOf);
+  }
+}
+
+export function areaLabelFor(conf: Conference): string {
+  return conf.area ?? OTHER_AREA;
+}
+
+export function groupByArea(conferences: Conference[]): ConferencesByArea {
+  const grouped: ConferencesByArea = {};
+  for (const conf of conferences) {
+    (grouped[areaLabelFor(conf)] ??= []).push(conf);
+  }
+  return grouped;
+}
+
+/**
+ * Known areas in `areaOrder`, then any others in the order they appear, then
+ * `OTHER_AREA`; areas without venues are left out.
+ */
+export function resolveAreaOrder(grouped: ConferencesByArea): string[] {
+  const referenced = new Set<string>([...areaOrder, OTHER_AREA]);
+  const extraAreas = Object.keys(grouped).filter(
+    (area) => !referenced.has(area),
+  );
+  return [...areaOrder, ...extraAreas, OTHER_AREA].filter(
+    (area) => grouped[area]?.length,
+  );
+}
+
+export function compareAreaLabels(a?: string, b?: string): number {
+  const rank = (label?: string) => {
+    if (!label) return areaOrder.length + 1;
+    return areaPriority.get(label) ?? areaOrder.length + 1;
+  };
+
+  const rankA = rank(a);
+  const rankB = rank(b);
+
+  if (rankA !== rankB) {
+    return rankA - rankB;
+  }
+
+  return (a ?? "").localeCompare(b ?? "");
+}
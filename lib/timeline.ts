@@ -0,0 +1,129 @@
+import type { Conference, DateRange } from "@/data/conferences";
+import { type DeadlineOccurrence, getDeadlineOccurrences } from "@/lib/deadlines";
+import { getLocationLabel } from "@/lib/location";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TimelineMonth {
+  /** Short month name, with the year on January and on the first column */
+  label: string;
+  /** Position of the month start within the window, from 0 to 1 */
+  offset: number;
+}
+
+export interface TimelineWindow {
+  start: Date;
+  end: Date;
+  months: TimelineMonth[];
+}
+
+export interface TimelineMarker extends DeadlineOccurrence {
+  offset: number;
+}
+
+export interface TimelineEvent {
+  dates: DateRange;
+  location?: string;
+  offset: number;
+  width: number;
+}
+
+export interface TimelineRow {
+  conf: Conference;
+  deadlines: TimelineMarker[];
+  event: TimelineEvent | null;
+}
+
+/** Whole UTC months starting with the one that contains `now`. */
+export function getTimelineWindow(now: Date, monthCount = 12): TimelineWindow {
+  const startYear = now.getUTCFullYear();
+  const startMonth = now.getUTCMonth();
+  const start = new Date(Date.UTC(startYear, startMonth, 1));
+  const end = new Date(Date.UTC(startYear, startMonth + monthCount, 1));
+  const span = end.getTime() - start.getTime();
+
+  const months = Array.from({ length: monthCount }, (_, index) => {
+    const month = new Date(Date.UTC(startYear, startMonth + index, 1));
+    const name = month.toLocaleString("en-US", { month: "short", timeZone: "UTC" });
+    return {
+      label:
+        index === 0 || month.getUTCMonth() === 0
+          ? `${name} ${month.getUTCFullYear()}`
+          : name,
+      offset: (month.getTime() - start.getTime()) / span,
+    };
+  });
+
+  return { start, end, months };
+}
+
+export function getTimelineOffset(window: TimelineWindow, date: Date): number {
+  return (
+    (date.getTime() - window.start.getTime()) /
+    (window.end.getTime() - window.start.getTime())
+  );
+}
+
+function parseDay(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toEvent(
+  window: TimelineWindow,
+  dates: DateRange | undefined,
+  location: string | undefined,
+): TimelineEvent | null {
+  if (!dates) return null;
+  const start = parseDay(dates.start);
+  const end = new Date(parseDay(dates.end).getTime() + DAY_MS);
+  if (end <= window.start || start >= window.end) return null;
+
+  const offset = Math.max(getTimelineOffset(window, start), 0);
+  return {
+    dates,
+    location,
+    offset,
+    width: Math.min(getTimelineOffset(window, end), 1) - offset,
+  };
+}
+
+function firstOffset(row: TimelineRow): number {
+  return Math.min(
+    ...row.deadlines.map((marker) => marker.offset),
+    row.event?.offset ?? Number.POSITIVE_INFINITY,
+  );
+}
+
+/**
+ * One row per venue with an open deadline or known conference dates inside
+ * the window, ordered by whichever comes first.
+ */
+export function getTimelineRows(
+  conferences: Conference[],
+  window: TimelineWindow,
+  now: Date,
+): TimelineRow[] {
+  return conferences
+    .map((conf) => {
+      const deadlines = getDeadlineOccurrences(conf, now)
+        .filter((occurrence) => occurrence.date < window.end)
+        .map((occurrence) => ({
+          ...occurrence,
+          offset: getTimelineOffset(window, occurrence.date),
+        }));
+      const event =
+        toEvent(window, conf.eventDates, getLocationLabel(conf)) ??
+        (conf.editions ?? [])
+          .map((edition) => toEvent(window, edition.dates, edition.location))
+          .find((entry) => entry !== null) ??
+        null;
+      return { conf, deadlines, event };
+    })
+    .filter((row) => row.deadlines.length > 0 || row.event)
+    .sort(
+      (a, b) =>
+        firstOffset(a) - firstOffset(b) ||
+        a.conf.acronym.localeCompare(b.conf.acronym),
+    );
+}
@@ -0,0 +1,100 @@
+const WATCHLIST_STORAGE_KEY = "conferenceddl:starred";
+const NEXT_UP_STORAGE_KEY = "conferenceddl:next-up-starred";
+
+const WATCHLIST_FILE_VERSION = 1;
+
+export interface WatchlistFile {
+  version: number;
+  starred: string[];
+}
+
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToWatchlist(listener: () => void): () => void {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+/** Raw stored value; parse with `parseStarred` so snapshots stay stable. */
+export function readStarredSnapshot(): string {
+  return window.localStorage.getItem(WATCHLIST_STORAGE_KEY) ?? "[]";
+}
+
+export function parseStarred(snapshot: string): string[] {
+  try {
+    const parsed: unknown = JSON.parse(snapshot);
+    return Array.isArray(parsed)
+      ? parsed.filter((id): id is string => typeof id === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeStarred(ids: string[]) {
+  window.localStorage.setItem(
+    WATCHLIST_STORAGE_KEY,
+    JSON.stringify([...new Set(ids)]),
+  );
+  notify();
+}
+
+export function toggleStarred(id: string) {
+  const current = parseStarred(readStarredSnapshot());
+  storeStarred(
+    current.includes(id)
+      ? current.filter((entry) => entry !== id)
+      : [...current, id],
+  );
+}
+
+export function readNextUpStarredOnly(): boolean {
+  return window.localStorage.getItem(NEXT_UP_STORAGE_KEY) === "1";
+}
+
+export function storeNextUpStarredOnly(value: boolean) {
+  window.localStorage.setItem(NEXT_UP_STORAGE_KEY, value ? "1" : "0");
+  notify();
+}
+
+/** Share codes are the starred ids joined with dots, e.g. `cvpr.iclr.neurips`. */
+export function encodeShareCode(ids: string[]): string {
+  return ids.join(".");
+}
+
+/** Keeps only ids present in `knownIds` so stale codes import cleanly. */
+export function decodeShareCode(code: string, knownIds: string[]): string[] {
+  return code
+    .trim()
+    .split(/[.,\s]+/)
+    .filter((id) => knownIds.includes(id));
+}
+
+export function serializeWatchlistFile(ids: string[]): string {
+  const file: WatchlistFile = {
+    version: WATCHLIST_FILE_VERSION,
+    starred: ids,
+  };
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+export function parseWatchlistFile(text: string, knownIds: string[]): string[] {
+  const parsed: unknown = JSON.parse(text);
+  const starred = Array.isArray(parsed)
+    ? parsed
+    : (parsed as Partial<WatchlistFile> | null)?.starred;
+  if (!Array.isArray(starred)) {
+    throw new Error("Expected a JSON file with a `starred` list of ids.");
+  }
+  return starred.filter(
+    (id): id is string => typeof id === "string" && knownIds.includes(id),
+  );
+}
@@ -0,0 +1,42 @@
+import type { Conference } from "@/data/conferences";
+
+export interface NestedRows<T> {
+  /** Rows shown at the top level, in their original order */
+  rows: T[];
+  /** Workshop rows by parent id, in their original order */
+  workshops: Map<string, T[]>;
+}
+
+/**
+ * Moves workshops under their parent's row when the parent is listed too. A
+ * workshop whose parent was filtered out keeps a row of its own when
+ * `standalone` is set, so filters never hide a matching workshop; otherwise
+ * it is left out.
+ */
+export function nestWorkshops<T>(
+  rows: T[],
+  toConference: (row: T) => Conference,
+  standalone = true,
+): NestedRows<T> {
+  const listed = new Set(rows.map((row) => toConference(row).id));
+  const workshops = new Map<string, T[]>();
+  const topLevel: T[] = [];
+
+  for (const row of rows) {
+    const parent = toConference(row).parent;
+    if (parent && listed.has(parent)) {
+      workshops.set(parent, [...(workshops.get(parent) ?? []), row]);
+    } else if (!parent || standalone) {
+      topLevel.push(row);
+    }
+  }
+
+  return { rows: topLevel, workshops };
+}
+
+export function getWorkshops(
+  conferences: Conference[],
+  parentId: string,
+): Conference[] {
+  return conferences.filter((conf) => conf.parent === parentId);
+}
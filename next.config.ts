@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Venue files and the change log are read at runtime by dynamic routes such
+  // as the calendar and Atom feeds.
+  outputFileTracingIncludes: {
+    "/*": ["./data/venues/**/*", "./data/changelog.yaml"],
+  },
 };
 
 export default nextConfig;
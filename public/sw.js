@@ -0,0 +1,182 @@
+// Service worker for offline use and deadline reminders. The page decides
+// which reminders are due and posts the schedule here; see lib/notifications.ts.
+
+// Bump to drop every cached response on the next visit.
+const CACHE_NAME = "conferenceddl-v2";
+
+// Pages are kept apart from build assets so only they count towards the limit.
+const PAGE_CACHE_NAME = `${CACHE_NAME}-pages`;
+
+const PRECACHE_URLS = [
+  "/manifest.webmanifest",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+];
+
+// Each page is stored under its full URL, query included, so an offline visit
+// shows the view it asked for. The most recently loaded ones are kept.
+const MAX_CACHED_PAGES = 30;
+
+// With a saved copy of the page, flaky Wi-Fi falls back to it this quickly.
+const NETWORK_TIMEOUT_MS = 4000;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    Promise.all([
+      caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS)),
+      caches.open(PAGE_CACHE_NAME).then((cache) => cache.add("/")),
+    ]).then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== CACHE_NAME && key !== PAGE_CACHE_NAME)
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Cache keys come back in the order they were stored, oldest first.
+async function trimPages(cache) {
+  const keys = await cache.keys();
+  await Promise.all(
+    keys
+      .slice(0, Math.max(keys.length - MAX_CACHED_PAGES, 0))
+      .map((key) => cache.delete(key)),
+  );
+}
+
+function offlinePage() {
+  return new Response(
+    `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Offline · Conference Deadlines</title>
+  </head>
+  <body style="font-family: system-ui, sans-serif; margin: 4rem auto; max-width: 32rem; padding: 0 1rem; color: #334155">
+    <h1 style="font-size: 1.25rem">You are offline</h1>
+    <p>This page has not been saved on this device yet. It loads once you are back online.</p>
+    <p><a href="/" style="color: #059669">Open the saved dashboard</a></p>
+  </body>
+</html>`,
+    { status: 503, headers: { "Content-Type": "text/html; charset=utf-8" } },
+  );
+}
+
+async function networkFirstPage(request) {
+  const cache = await caches.open(PAGE_CACHE_NAME);
+  const cached = await cache.match(request);
+  const network = fetch(request).then(async (response) => {
+    if (response.ok) {
+      await cache.put(request, response.clone());
+      await trimPages(cache);
+    }
+    return response;
+  });
+  // Settles quietly when the timeout wins and the request fails afterwards.
+  network.catch(() => {});
+
+  try {
+    if (!cached) return await network;
+    // Without a saved copy of this URL there is nothing better to show, so
+    // only a page that has one stops waiting for a slow network.
+    return await Promise.race([
+      network,
+      new Promise((_, reject) =>
+        setTimeout(() => reject(new Error("timeout")), NETWORK_TIMEOUT_MS),
+      ),
+    ]);
+  } catch {
+    return cached ?? offlinePage();
+  }
+}
+
+// Build assets are content-hashed, so a cached copy never goes stale.
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (
+    url.pathname.startsWith("/_next/static/") ||
+    url.pathname.startsWith("/icons/") ||
+    url.pathname === "/manifest.webmanifest"
+  ) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === "navigate") {
+    // Pages are rendered on the server for their URL, so a page never loaded
+    // online has no stand-in: another URL's copy would show the wrong view.
+    event.respondWith(networkFirstPage(request));
+  }
+  // Anything else, e.g. the data for client-side navigations, the feed and
+  // calendar files, goes to the network uncached.
+});
+
+async function scheduleReminders(reminders) {
+  // Notification triggers are only available in some Chromium builds; other
+  // browsers rely on the open page to deliver reminders as they come due.
+  if (!("TimestampTrigger" in self)) return;
+
+  const pending = await self.registration.getNotifications({
+    includeTriggered: false,
+  });
+  for (const notification of pending) {
+    if (notification.data?.reminder) notification.close();
+  }
+
+  const now = Date.now();
+  await Promise.all(
+    reminders
+      .filter((reminder) => reminder.at > now)
+      .map((reminder) =>
+        self.registration.showNotification(reminder.title, {
+          tag: reminder.tag,
+          body: reminder.body,
+          data: { url: reminder.url, reminder: true },
+          showTrigger: new self.TimestampTrigger(reminder.at),
+        }),
+      ),
+  );
+}
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "schedule-reminders") {
+    event.waitUntil(scheduleReminders(event.data.reminders ?? []));
+  }
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? "/", self.location.origin);
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        const existing = clients.find(
+          (client) => new URL(client.url).pathname === url.pathname,
+        );
+        if (existing) return existing.focus();
+        return self.clients.openWindow(url.href);
+      }),
+  );
+});
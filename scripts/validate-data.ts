@@ -0,0 +1,31 @@
+import {
+  readChangeLogFile,
+  readVenueFiles,
+  validateVenueFiles,
+} from "@/lib/conference-data";
+import { formatValidationReport, validateChangeLog } from "@/lib/schema";
+
+const entries = readVenueFiles();
+const changes = readChangeLogFile();
+const issues = [
+  ...validateVenueFiles(entries),
+  ...validateChangeLog(
+    changes,
+    entries.flatMap(({ value }) => {
+      const id = (value as { id?: unknown } | null)?.id;
+      return typeof id === "string" ? [id] : [];
+    }),
+  ),
+];
+
+if (issues.length) {
+  console.error(
+    `Found ${issues.length} ${issues.length === 1 ? "problem" : "problems"} in data/:\n`,
+  );
+  console.error(formatValidationReport(issues));
+  process.exit(1);
+}
+
+console.log(
+  `All ${entries.length} conferences and ${changes.length} change log entries are valid.`,
+);
@@ -0,0 +1,11 @@
+// The bundled TopoJSON would otherwise be typed from its literal contents,
+// which topojson-client cannot accept as a topology.
+declare module "world-atlas/countries-110m.json" {
+  import type { GeometryCollection, Topology } from "topojson-specification";
+
+  const countries: Topology<{
+    countries: GeometryCollection<{ name: string }>;
+    land: GeometryCollection;
+  }>;
+  export default countries;
+}